@@ -13,7 +13,7 @@ const buildOptions = {
 	banner: { js: banner },
 	entryPoints: ["src/main.ts", "src/styles/main.css"],
 	bundle: true,
-	external: ["obsidian", "electron"],
+	external: ["obsidian", "electron", "@codemirror/state", "@codemirror/view"],
 	format: "cjs",
 	target: "es2022",
 	logLevel: "info",
@@ -0,0 +1,317 @@
+// src/commands.ts
+import {TFile} from "obsidian";
+import {NovelCompiler} from "./compiler";
+import {NovelFileCreator} from "./creator";
+import {NovelIndexer} from "./indexer";
+import type NovelNavigatorPlugin from "./main";
+import {CHAPTER_STATUSES, setChapterStatus, STATUS_LABELS} from "./status";
+import {getDefaultComparison, openStageDiff} from "./views/StageDiffView";
+import {
+    BookEntry,
+    ChapterEntry,
+    ChapterNavigationTargets,
+    ChapterPlacement,
+    ChapterStatus,
+    NavigationTarget,
+    NovelNavigatorSettings
+} from "./types";
+
+type TargetPicker = (nav: ChapterNavigationTargets) => NavigationTarget | undefined;
+type PlacementPicker = (book: BookEntry, chapter: ChapterEntry | null) => ChapterPlacement | null;
+
+/**
+ * Turns a stage name into the part of a command id that names it, e.g. "First Draft" → "first-draft".
+ */
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Registers a command for every toolbar action. Each command is only available while the active file
+ * is part of a novel and the action can be carried out.
+ */
+export class NovelCommands {
+    // Command id slugs of the stages that have commands
+    private registeredStages = new Set<string>();
+
+    constructor(
+        private plugin: NovelNavigatorPlugin,
+        private settings: NovelNavigatorSettings,
+        private indexer: NovelIndexer,
+        private creator: NovelFileCreator,
+        private compiler: NovelCompiler
+    ) {
+    }
+
+    public register() {
+        this.addNavigationCommand("previous-chapter", "Go to previous chapter", nav => nav.previous);
+        this.addNavigationCommand("next-chapter", "Go to next chapter", nav => nav.next);
+        this.addNavigationCommand("first-chapter", "Go to first chapter of the book", nav => nav.first);
+        this.addNavigationCommand("last-chapter", "Go to last chapter of the book", nav => nav.last);
+        this.addNavigationCommand("open-chapter-info", "Open chapter info", nav => nav.chapterInfo);
+        this.addNavigationCommand("open-book-info", "Open book info", nav => nav.bookInfo);
+        this.addBookCommand("previous-book", "Go to previous book in series", "previous");
+        this.addBookCommand("next-book", "Go to next book in series", "next");
+
+        this.addChapterCommand("insert-chapter-after", "Insert chapter after current",
+            (_, chapter) => chapter && {kind: "after", chapter});
+        this.addChapterCommand("insert-chapter-before", "Insert chapter before current",
+            (_, chapter) => chapter && {kind: "before", chapter});
+        this.addChapterCommand("add-chapter", "Add chapter at end of book", () => ({kind: "end"}));
+        this.addChapterCommand("add-prologue", "Add prologue", () => ({kind: "prologue"}));
+        this.addChapterCommand("add-epilogue", "Add epilogue", () => ({kind: "epilogue"}));
+
+        for (const status of CHAPTER_STATUSES) {
+            this.addStatusCommand(`set-status-${status}`, `Set chapter status: ${STATUS_LABELS[status]}`, status);
+        }
+        this.addStatusCommand("clear-status", "Derive chapter status from stages", null);
+
+        this.plugin.addCommand({
+            id: "promote-stage",
+            name: "Promote to next stage",
+            checkCallback: (checking) => {
+                const active = this.plugin.app.workspace.getActiveFile();
+                const mode = active ? this.indexer.resolveToolbarModeForFile(active) : null;
+                if (mode?.kind !== "chapter-stage" || !this.creator.getPromotionTarget(mode.stage)) return false;
+
+                if (!checking) {
+                    void this.creator.promoteStage(mode.stage).then(file => {
+                        if (file) void this.plugin.app.workspace.openLinkText(file.path, "", false);
+                    });
+                }
+                return true;
+            },
+        });
+
+        this.plugin.addCommand({
+            id: "compare-stages",
+            name: "Compare chapter stages",
+            checkCallback: (checking) => {
+                const active = this.plugin.app.workspace.getActiveFile();
+                const mode = active ? this.indexer.resolveToolbarModeForFile(active) : null;
+                if (mode?.kind !== "chapter-stage") return false;
+
+                const {chapter, stage} = mode.stage;
+                const comparison = getDefaultComparison(chapter, this.indexer.getStageDefinitions(), stage);
+                if (!comparison) return false;
+
+                if (!checking) {
+                    void openStageDiff(this.plugin.app, chapter, comparison.before, comparison.after);
+                }
+                return true;
+            },
+        });
+
+        this.plugin.addCommand({
+            id: "compile-book",
+            name: "Compile book",
+            checkCallback: (checking) => {
+                const book = this.getActiveBook();
+                if (!book || book.chapters.length === 0) return false;
+
+                if (!checking) {
+                    void this.compiler.compileBook(book).then(file => {
+                        if (file) void this.plugin.app.workspace.openLinkText(file.path, "", false);
+                    });
+                }
+                return true;
+            },
+        });
+
+        this.registerStageCommands();
+    }
+
+    /**
+     * Adds "Open <stage>" and "Create <stage>" commands for every configured stage that doesn't have
+     * them yet. Commands can't be unregistered, so those of removed stages simply stop being available;
+     * this runs on load and when the settings tab closes, never while a stage name is being typed.
+     */
+    public registerStageCommands() {
+        for (const definition of this.indexer.getStageDefinitions()) {
+            const slug = slugify(definition.name);
+            if (!slug || this.registeredStages.has(slug)) continue;
+            this.registeredStages.add(slug);
+
+            const name = definition.name;
+            this.addNavigationCommand(
+                `open-stage-${slug}`,
+                `Open ${definition.label || name}`,
+                nav => nav.stages.find(s => s.definition.name === name)?.target,
+                file => this.plugin.openStage(file)
+            );
+
+            this.plugin.addCommand({
+                id: `create-stage-${slug}`,
+                name: `Create ${definition.label || name}`,
+                checkCallback: (checking) => {
+                    const chapter = this.getActiveChapter();
+                    const current = this.indexer.getStageDefinitions().find(d => d.name === name);
+                    if (!chapter?.info || !current || chapter.stages.has(name)) return false;
+
+                    if (!checking) {
+                        void this.creator.createStageFile(chapter, current).then(file => {
+                            if (file) void this.plugin.app.workspace.openLinkText(file.path, "", false);
+                        });
+                    }
+                    return true;
+                },
+            });
+        }
+    }
+
+    /**
+     * Adds a command that opens the file a navigation target points to, with `open` when given (stage
+     * commands open at the matching scene).
+     */
+    private addNavigationCommand(id: string, name: string, pick: TargetPicker, open?: (file: TFile) => void) {
+        this.plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking) => {
+                const file = this.getTargetFile(pick);
+                if (!file) return false;
+
+                if (!checking) {
+                    if (open) {
+                        open(file);
+                    } else {
+                        void this.plugin.app.workspace.openLinkText(file.path, "", false);
+                    }
+                }
+                return true;
+            },
+        });
+    }
+
+    /**
+     * Adds a command that opens the book info file of the active book's neighbour in its series.
+     */
+    private addBookCommand(id: string, name: string, direction: "previous" | "next") {
+        this.plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking) => {
+                const book = this.getActiveBook();
+                const target = book ? this.indexer.getAdjacentBook(book, direction) : undefined;
+                if (!target) return false;
+
+                if (!checking) {
+                    void this.plugin.app.workspace.openLinkText(target.file.path, "", false);
+                }
+                return true;
+            },
+        });
+    }
+
+    /**
+     * Adds a command that creates a chapter in the active book. The picker receives the active chapter,
+     * or null on a book info file.
+     */
+    private addChapterCommand(id: string, name: string, pick: PlacementPicker) {
+        this.plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking) => {
+                const book = this.getActiveBook();
+                const placement = book ? pick(book, this.getActiveChapter()) : null;
+                if (!book || !placement || !this.creator.canPlaceChapter(book, placement)) return false;
+
+                if (!checking) {
+                    void this.creator.createChapter(book, placement).then(file => {
+                        if (file) void this.plugin.app.workspace.openLinkText(file.path, "", false);
+                    });
+                }
+                return true;
+            },
+        });
+    }
+
+    /**
+     * Adds a command that writes the active chapter's status, or clears it when `status` is null.
+     * Only available when it would change anything.
+     */
+    private addStatusCommand(id: string, name: string, status: ChapterStatus | null) {
+        this.plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking) => {
+                const chapter = this.getActiveChapter();
+                if (!chapter?.info) return false;
+                if (status ? chapter.hasExplicitStatus && chapter.status === status : !chapter.hasExplicitStatus) {
+                    return false;
+                }
+
+                if (!checking) {
+                    void setChapterStatus(this.plugin.app, this.settings, chapter, status);
+                }
+                return true;
+            },
+        });
+    }
+
+    private getActiveBook(): BookEntry | null {
+        const active = this.plugin.app.workspace.getActiveFile();
+        if (!active) return null;
+
+        const mode = this.indexer.resolveToolbarModeForFile(active);
+        switch (mode.kind) {
+            case "book-info":
+                return mode.book;
+            case "chapter-stage":
+                return mode.stage.chapter.book;
+            default:
+                return null;
+        }
+    }
+
+    private getActiveChapter(): ChapterEntry | null {
+        const active = this.plugin.app.workspace.getActiveFile();
+        if (!active) return null;
+
+        const mode = this.indexer.resolveToolbarModeForFile(active);
+        return mode.kind === "chapter-stage" ? mode.stage.chapter : null;
+    }
+
+    private getTargetFile(pick: TargetPicker): TFile | null {
+        const active = this.plugin.app.workspace.getActiveFile();
+        if (!active) return null;
+
+        const nav = this.getNavigationTargets(active);
+        const target = nav ? pick(nav) : undefined;
+        return target?.kind === "file" && target.file !== active ? target.file : null;
+    }
+
+    /**
+     * Returns the navigation targets for the active file. On a book info file, only the book's first
+     * and last chapters are reachable.
+     */
+    private getNavigationTargets(file: TFile): ChapterNavigationTargets | null {
+        const mode = this.indexer.resolveToolbarModeForFile(file);
+
+        switch (mode.kind) {
+            case "chapter-stage":
+                return this.indexer.getNavigationTargets(mode.stage);
+
+            case "book-info": {
+                const chapters = mode.book.chapters;
+                const toInfo = (index: number): NavigationTarget => {
+                    const info = chapters[index]?.info;
+                    return info ? {kind: "file", file: info} : {kind: "disabled"};
+                };
+
+                return {
+                    stages: [],
+                    previous: {kind: "disabled"},
+                    next: {kind: "disabled"},
+                    first: toInfo(0),
+                    last: toInfo(chapters.length - 1),
+                    bookInfo: {kind: "disabled"},
+                    chapterInfo: {kind: "disabled"},
+                };
+            }
+
+            default:
+                return null;
+        }
+    }
+}
@@ -0,0 +1,161 @@
+// src/compiler.ts
+import {App, normalizePath, Notice, TFile} from "obsidian";
+import {NovelFileCreator} from "./creator";
+import {NovelIndexer} from "./indexer";
+import {getFullChapterLabel, getPartHeading} from "./labels";
+import {logger} from "./logger";
+import {isSceneBreak} from "./scenes";
+import {BookEntry, ChapterEntry, ChapterStage, NovelNavigatorSettings, PartEntry} from "./types";
+import {stripNoteBody} from "./wordcount";
+
+// Headings that can still go a level down in a chapter under a part heading
+const ATX_HEADING = /^[ \t]{0,3}#{1,5}(?:[ \t]|$)/;
+const SETEXT_UNDERLINE = /^[ \t]{0,3}(?:=+|-+)[ \t]*$/;
+
+export interface CompileResult {
+    file: TFile;
+    // Chapters that had none of the compiled stages
+    missing: ChapterEntry[];
+    // Chapters compiled from a later fallback stage than the first choice, with the stage used
+    fallbacks: Map<ChapterEntry, ChapterStage>;
+}
+
+/**
+ * Joins a book's chapters, in reading order, into a single manuscript for export.
+ */
+export class NovelCompiler {
+    constructor(
+        private app: App,
+        private indexer: NovelIndexer,
+        private settings: NovelNavigatorSettings,
+        private creator: NovelFileCreator
+    ) {
+    }
+
+    /**
+     * Compiles the book and reports the outcome in a notice. Resolves to the manuscript file, or null
+     * when it could not be written.
+     */
+    public async compileBook(book: BookEntry): Promise<TFile | null> {
+        try {
+            const {file, missing, fallbacks} = await this.compile(book);
+
+            const notes = [`Compiled "${book.title}" to ${file.path}.`];
+            if (fallbacks.size > 0) {
+                notes.push(`Used an earlier stage for ${[...fallbacks.keys()].map(getFullChapterLabel).join(", ")}.`);
+            }
+            if (missing.length > 0) {
+                notes.push(`Missing: ${missing.map(getFullChapterLabel).join(", ")}.`);
+            }
+            new Notice(notes.join("\n"), missing.length > 0 ? 10000 : undefined);
+            return file;
+        } catch (e) {
+            logger.error(`Failed to compile "${book.file.path}".`, e);
+            new Notice(`Could not compile "${book.title}".`);
+            return null;
+        }
+    }
+
+    private async compile(book: BookEntry): Promise<CompileResult> {
+        const stages = this.getStageOrder();
+        const separator = this.settings.compile.sceneSeparator;
+        const missing: ChapterEntry[] = [];
+        const fallbacks = new Map<ChapterEntry, ChapterStage>();
+
+        const sections: string[] = [];
+        let part: PartEntry | undefined;
+        for (const chapter of book.chapters) {
+            // Chapters in parts go a heading level down, under their part's heading
+            if (chapter.part && chapter.part !== part) {
+                sections.push(`# ${getPartHeading(chapter.part)}`);
+            }
+            part = chapter.part;
+
+            const stage = stages.find(name => chapter.stages.has(name));
+            if (!stage) {
+                missing.push(chapter);
+                continue;
+            }
+            if (stage !== stages[0]) {
+                fallbacks.set(chapter, stage);
+            }
+
+            const content = await this.app.vault.cachedRead(chapter.stages.get(stage)!);
+            const body = this.formatBody(stripNoteBody(content), separator, !!chapter.part)
+                .replace(/\n{3,}/g, "\n\n")
+                .trim();
+
+            sections.push(`${chapter.part ? "##" : "#"} ${chapter.chapterLabel}\n\n${body}`);
+        }
+
+        const manuscript = [
+            "---",
+            `title: ${JSON.stringify(book.title)}`,
+            "---",
+            "",
+            sections.join("\n\n"),
+            "",
+        ].join("\n");
+
+        const path = this.creator.renderPath(this.settings.compile.outputPath, {
+            book_title: book.title,
+            book_folder: book.file.parent?.path ?? "",
+            stage: stages[0] ?? "",
+            date: this.creator.formatDate(new Date()),
+        });
+
+        return {file: await this.writeFile(path, manuscript), missing, fallbacks};
+    }
+
+    /**
+     * Replaces the scene breaks of a chapter's text with the separator. Chapters in parts sit a heading
+     * level lower, under their part's heading, so the headings within them (such as scene headings) go
+     * down a level too; setext headings become ATX ones to do so.
+     */
+    private formatBody(text: string, separator: string, inPart: boolean): string {
+        const lines = text.split("\n");
+        const output: string[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            if (isSceneBreak(lines, i)) {
+                output.push(separator);
+            } else if (inPart && ATX_HEADING.test(line)) {
+                output.push(`#${line.trimStart()}`);
+            } else if (inPart && line.trim() && SETEXT_UNDERLINE.test(lines[i + 1] ?? "")) {
+                const level = lines[i + 1].trim().startsWith("=") ? 2 : 3;
+                output.push(`${"#".repeat(level)} ${line.trim()}`);
+                i++;
+            } else {
+                output.push(line);
+            }
+        }
+        return output.join("\n");
+    }
+
+    /**
+     * The configured stages to compile from, in order of preference, limited to known stages.
+     */
+    private getStageOrder(): ChapterStage[] {
+        const known = new Set(this.indexer.getStageDefinitions().map(d => d.name));
+        return this.settings.compile.stages.filter(name => known.has(name));
+    }
+
+    /**
+     * Writes the manuscript, replacing an earlier compile at the same path.
+     */
+    private async writeFile(path: string, content: string): Promise<TFile> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+
+        const slash = path.lastIndexOf("/");
+        const folder = slash >= 0 ? normalizePath(path.slice(0, slash)) : "";
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(path, content);
+    }
+}
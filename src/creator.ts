@@ -0,0 +1,428 @@
+// src/creator.ts
+import {App, normalizePath, Notice, TFile} from "obsidian";
+import {NovelIndexer} from "./indexer";
+import {getFullChapterLabel, renderLabel} from "./labels";
+import {logger} from "./logger";
+import {confirm} from "./modals/ConfirmModal";
+import {
+    BookEntry,
+    ChapterEntry,
+    ChapterPlacement,
+    NovelNavigatorSettings,
+    PartEntry,
+    StageDefinition,
+    StageEntry
+} from "./types";
+import {splitFrontmatter} from "./wordcount";
+
+// Characters that aren't allowed in file names, or that break wikilinks
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+export class NovelFileCreator {
+    constructor(
+        private app: App,
+        private indexer: NovelIndexer,
+        private settings: NovelNavigatorSettings
+    ) {
+    }
+
+    // ─────────────────────────────────────────────
+    // Chapters
+    // ─────────────────────────────────────────────
+
+    /**
+     * Whether a new chapter can be placed in the book: the book needs a `chapters` list, or parts, to
+     * splice it into, there is only one prologue and epilogue, and nothing goes before the prologue or
+     * after the epilogue.
+     */
+    public canPlaceChapter(book: BookEntry, placement: ChapterPlacement): boolean {
+        switch (placement.kind) {
+            case "prologue":
+                return !book.prologue;
+            case "epilogue":
+                return !book.epilogue;
+            case "end":
+                return this.hasChapterList(book);
+            case "before":
+                return this.hasChapterList(book) && placement.chapter.kind !== "prologue";
+            case "after":
+                return this.hasChapterList(book) && placement.chapter.kind !== "epilogue";
+        }
+    }
+
+    /**
+     * Creates a chapter info file from the chapter template and links it into the book info file at
+     * the given place. Labels and numbers follow from the new order once the book is re-indexed.
+     */
+    public async createChapter(book: BookEntry, placement: ChapterPlacement): Promise<TFile | null> {
+        if (!this.canPlaceChapter(book, placement)) {
+            return null;
+        }
+
+        const keys = this.settings.properties;
+        const variables = this.getChapterVariables(book, placement);
+
+        try {
+            const content = await this.renderTemplateFile(this.settings.newFiles.chapterTemplate, variables);
+            const path = this.renderPath(this.settings.newFiles.chapterPathPattern, variables);
+            const file = await this.createFile(path, content);
+
+            const indexed = this.waitForMetadata(book.file);
+            await this.app.fileManager.processFrontMatter(book.file, (fm) => {
+                const link = this.linkTo(file, book.file);
+
+                if (placement.kind === "prologue" || placement.kind === "epilogue") {
+                    fm[placement.kind === "prologue" ? keys.prologue : keys.epilogue] = link;
+                    return;
+                }
+
+                const entries = this.getChapterList(fm, book, placement);
+                entries.splice(this.getInsertIndex(entries, book, placement), 0, link);
+            });
+            await indexed;
+
+            return file;
+        } catch (e) {
+            logger.error(`Failed to add a chapter to "${book.file.path}".`, e);
+            new Notice(`Could not add a chapter to "${book.title}".`);
+            return null;
+        }
+    }
+
+    private hasChapterList(book: BookEntry): boolean {
+        const keys = this.settings.properties;
+        const fm = this.app.metadataCache.getFileCache(book.file)?.frontmatter;
+        return Array.isArray(fm?.[keys.parts]) ? fm[keys.parts].length > 0 : Array.isArray(fm?.[keys.chapters]);
+    }
+
+    /**
+     * The part a new chapter goes in: that of the chapter it is placed next to, the first part after
+     * the prologue, and otherwise the last part.
+     */
+    private getPlacementPart(book: BookEntry, placement: ChapterPlacement): PartEntry | undefined {
+        if (placement.kind === "prologue" || placement.kind === "epilogue") return undefined;
+
+        const chapter = placement.kind === "end" ? undefined : placement.chapter;
+        if (chapter?.kind === "prologue") return book.parts[0];
+        return chapter?.part ?? book.parts[book.parts.length - 1];
+    }
+
+    /**
+     * The raw list in the book's frontmatter that a new chapter is spliced into: its `chapters` list, or
+     * in a book of parts the `chapters` list of the part it goes in, which is added if missing.
+     */
+    private getChapterList(fm: Record<string, any>, book: BookEntry, placement: ChapterPlacement): unknown[] {
+        const keys = this.settings.properties;
+        const part = this.getPlacementPart(book, placement);
+        if (!part || !Array.isArray(fm[keys.parts])) return fm[keys.chapters];
+
+        const raw: unknown = fm[keys.parts][part.index];
+        if (typeof raw !== "object" || raw === null) {
+            throw new Error(`Part ${part.index + 1} of "${book.file.path}" is not a list entry with chapters.`);
+        }
+
+        const entry = raw as Record<string, unknown>;
+        if (!Array.isArray(entry.chapters)) entry.chapters = [];
+        return entry.chapters as unknown[];
+    }
+
+    /**
+     * Finds where a new entry goes in a raw chapter list. The prologue and epilogue aren't in the
+     * list, so "after the prologue" is its start and "before the epilogue" its end.
+     */
+    private getInsertIndex(entries: unknown[], book: BookEntry, placement: ChapterPlacement): number {
+        if (placement.kind !== "before" && placement.kind !== "after") {
+            return entries.length;
+        }
+
+        const {chapter} = placement;
+        if (chapter.kind === "prologue") return 0;
+        if (chapter.kind === "epilogue") return entries.length;
+
+        const index = entries.findIndex(entry =>
+            typeof entry === "string" && this.indexer.resolveWikiLink(entry, book.file) === chapter.file
+        );
+        if (index < 0) return entries.length;
+
+        return placement.kind === "before" ? index : index + 1;
+    }
+
+    /**
+     * The number and label the new chapter will get once the book is re-indexed: one more than the
+     * numbered chapters before it, counting only its part's when the numbering restarts in each.
+     */
+    private getChapterVariables(book: BookEntry, placement: ChapterPlacement): Record<string, string> {
+        const formats = this.settings.labels;
+        const part = this.getPlacementPart(book, placement);
+
+        let kind = "chapter";
+        let chapterNumber: number | null = null;
+        let label: string;
+
+        if (placement.kind === "prologue") {
+            kind = placement.kind;
+            label = renderLabel(formats.prologueFormat, null, undefined, "Prologue");
+        } else if (placement.kind === "epilogue") {
+            kind = placement.kind;
+            label = renderLabel(formats.epilogueFormat, null, undefined, "Epilogue");
+        } else {
+            const position = placement.kind === "end"
+                ? book.epilogue ? book.chapters.indexOf(book.epilogue) : book.chapters.length
+                : book.chapters.indexOf(placement.chapter) + (placement.kind === "after" ? 1 : 0);
+            const perPart = formats.numbering === "per-part";
+
+            chapterNumber = book.chapters.slice(0, position)
+                .filter(c => c.chapterNumber !== null && (!perPart || c.part === part))
+                .length + 1;
+            label = renderLabel(formats.chapterFormat, chapterNumber, undefined, `Chapter ${chapterNumber}`);
+        }
+
+        return {
+            book_title: book.title,
+            book_folder: book.file.parent?.path ?? "",
+            part_label: part?.label ?? "",
+            part_title: part?.title ?? "",
+            chapter_label: label,
+            chapter_number: chapterNumber?.toString() ?? "",
+            chapter_kind: kind,
+            chapter_datetime: "",
+            chapter_location: "",
+            chapter_name: label,
+            chapter_folder: book.file.parent?.path ?? "",
+            date: this.formatDate(new Date()),
+        };
+    }
+
+    // ─────────────────────────────────────────────
+    // Stages
+    // ─────────────────────────────────────────────
+
+    /**
+     * Creates a missing stage file for a chapter from the stage's template, links it from the chapter
+     * info file and points it back at the chapter. Resolves once the index has picked it up.
+     */
+    public async createStageFile(chapter: ChapterEntry, definition: StageDefinition): Promise<TFile | null> {
+        const info = chapter.info;
+        if (!info) {
+            new Notice(`${getFullChapterLabel(chapter)} has no chapter info file to link a new ${definition.label} from.`);
+            return null;
+        }
+
+        const keys = this.settings.properties;
+        const variables = this.getStageVariables(chapter, definition);
+
+        try {
+            const content = await this.renderTemplateFile(definition.template, variables);
+            const path = this.renderPath(this.settings.newFiles.stagePathPattern, variables);
+            const file = await this.createFile(path, content);
+
+            await this.app.fileManager.processFrontMatter(file, (fm) => {
+                fm[keys.chapterRefer] = this.linkTo(info, file);
+                fm[keys.chapterStage] = definition.name;
+            });
+
+            const indexed = this.waitForMetadata(info);
+            await this.app.fileManager.processFrontMatter(info, (fm) => {
+                fm[definition.key] = this.linkTo(file, info);
+            });
+            await indexed;
+
+            return file;
+        } catch (e) {
+            logger.error(`Failed to create the ${definition.name} stage of "${info.path}".`, e);
+            new Notice(`Could not create the ${definition.label || definition.name} of ${getFullChapterLabel(chapter)}.`);
+            return null;
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Promotion
+    // ─────────────────────────────────────────────
+
+    /**
+     * The stage a stage file would be promoted into: the next one in the configured order. Null on a
+     * chapter info file, on the last stage, or when there is no chapter info file to link a new stage from.
+     */
+    public getPromotionTarget(entry: StageEntry): StageDefinition | null {
+        const definitions = this.indexer.getStageDefinitions();
+        const index = definitions.findIndex(d => d.name === entry.stage);
+        if (index < 0 || index === definitions.length - 1) return null;
+
+        const next = definitions[index + 1];
+        return entry.chapter.info || entry.chapter.stages.has(next.name) ? next : null;
+    }
+
+    /**
+     * Copies the body of a stage file into the chapter's next stage, creating that stage file when it is
+     * missing. The target keeps its own frontmatter and records where and when it was promoted from.
+     * Asks before replacing a target that already has text, and refuses a frozen one.
+     */
+    public async promoteStage(entry: StageEntry): Promise<TFile | null> {
+        const next = this.getPromotionTarget(entry);
+        if (!next) return null;
+
+        const {chapter, file: source} = entry;
+        const keys = this.settings.properties;
+        const label = next.label || next.name;
+
+        try {
+            let target = chapter.stages.get(next.name) ?? null;
+            if (target) {
+                const fm = this.app.metadataCache.getFileCache(target)?.frontmatter;
+                if (fm?.[keys.frozen] === true) {
+                    new Notice(`The ${label} of ${getFullChapterLabel(chapter)} is frozen and can't be overwritten.`);
+                    return null;
+                }
+
+                const {body} = splitFrontmatter(await this.app.vault.read(target));
+                const replace = !body.trim() || await confirm(this.app, {
+                    title: `Replace the ${label}?`,
+                    message: `The ${label} of ${getFullChapterLabel(chapter)} already has text. Promoting replaces it `
+                        + `with the text of ${source.basename}.`,
+                    confirm: "Replace",
+                });
+                if (!replace) return null;
+            } else {
+                target = await this.createStageFile(chapter, next);
+                if (!target) return null;
+            }
+
+            const {body} = splitFrontmatter(await this.app.vault.read(source));
+            await this.app.vault.process(target, (text) =>
+                splitFrontmatter(text).frontmatter + body.replace(/^(\r?\n)+/, ""));
+
+            const promoted = target;
+            await this.app.fileManager.processFrontMatter(promoted, (fm) => {
+                fm[keys.promotedFrom] = this.linkTo(source, promoted);
+                fm[keys.promotedAt] = this.formatDate(new Date());
+            });
+
+            if (this.settings.newFiles.freezeOnPromote) {
+                await this.app.fileManager.processFrontMatter(source, (fm) => {
+                    fm[keys.frozen] = true;
+                });
+            }
+
+            return promoted;
+        } catch (e) {
+            logger.error(`Failed to promote "${source.path}" to the ${next.name} stage.`, e);
+            new Notice(`Could not promote ${getFullChapterLabel(chapter)} to its ${label}.`);
+            return null;
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Templates
+    // ─────────────────────────────────────────────
+
+    /**
+     * Replaces every `{{name}}` in the text with its variable. Unknown variables are left untouched so
+     * that other template plugins can still process them.
+     */
+    private renderTemplate(text: string, variables: Record<string, string>): string {
+        return text.replace(/{{\s*([\w-]+)\s*}}/g, (match, name: string) =>
+            name in variables ? variables[name] : match
+        );
+    }
+
+    private async renderTemplateFile(templatePath: string | undefined, variables: Record<string, string>): Promise<string> {
+        if (!templatePath) return "";
+
+        const template = this.app.metadataCache.getFirstLinkpathDest(templatePath.replace(/\.md$/i, ""), "");
+        if (!template) {
+            new Notice(`Template "${templatePath}" was not found; creating an empty file instead.`);
+            return "";
+        }
+
+        return this.renderTemplate(await this.app.vault.cachedRead(template), variables);
+    }
+
+    private getStageVariables(chapter: ChapterEntry, definition: StageDefinition): Record<string, string> {
+        const info = chapter.info ?? chapter.file;
+        return {
+            book_title: chapter.book.title,
+            book_folder: chapter.book.file.parent?.path ?? "",
+            part_label: chapter.part?.label ?? "",
+            part_title: chapter.part?.title ?? "",
+            chapter_label: chapter.chapterLabel,
+            chapter_number: chapter.chapterNumber?.toString() ?? "",
+            chapter_kind: chapter.kind,
+            chapter_datetime: chapter.datetime?.toString() ?? "",
+            chapter_location: chapter.location?.toString() ?? "",
+            chapter_name: info.basename,
+            chapter_folder: info.parent?.path ?? "",
+            stage: definition.name,
+            stage_label: definition.label || definition.name,
+            date: this.formatDate(new Date()),
+        };
+    }
+
+    public formatDate(date: Date): string {
+        const pad = (n: number) => String(n).padStart(2, "0");
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+
+    // ─────────────────────────────────────────────
+    // Files
+    // ─────────────────────────────────────────────
+
+    /**
+     * Renders a path pattern into a vault path. Folder variables are kept as-is; every other value is
+     * stripped of characters that can't appear in a file name.
+     */
+    public renderPath(pattern: string, variables: Record<string, string>): string {
+        const safe: Record<string, string> = {};
+        for (const [name, value] of Object.entries(variables)) {
+            safe[name] = name.endsWith("_folder") ? value : value.replace(UNSAFE_FILENAME_CHARS, "").trim();
+        }
+
+        const path = this.renderTemplate(pattern, safe).replace(/^\/+/, "");
+        return normalizePath(path.endsWith(".md") ? path : `${path}.md`);
+    }
+
+    /**
+     * Creates a file at the path, creating its folder if needed. When the path is taken, a number is
+     * appended to the name.
+     */
+    private async createFile(path: string, content: string): Promise<TFile> {
+        const slash = path.lastIndexOf("/");
+        const folder = slash >= 0 ? path.slice(0, slash) : "";
+        const basename = path.slice(slash + 1).replace(/\.md$/, "");
+
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        let candidate = path;
+        for (let i = 1; this.app.vault.getAbstractFileByPath(candidate); i++) {
+            candidate = normalizePath(`${folder}/${basename} ${i}.md`);
+        }
+
+        return this.app.vault.create(candidate, content);
+    }
+
+    private linkTo(file: TFile, sourceFile: TFile): string {
+        return `[[${this.app.metadataCache.fileToLinktext(file, sourceFile.path, true)}]]`;
+    }
+
+    /**
+     * Resolves once the metadata cache has re-parsed the file (and so the indexer has updated), or
+     * after a short timeout.
+     */
+    private waitForMetadata(file: TFile): Promise<void> {
+        const cache = this.app.metadataCache;
+
+        return new Promise(resolve => {
+            const finish = () => {
+                window.clearTimeout(timeout);
+                cache.offref(ref);
+                resolve();
+            };
+
+            const ref = cache.on("changed", (changed) => {
+                if (changed === file) finish();
+            });
+            const timeout = window.setTimeout(finish, 2000);
+        });
+    }
+}
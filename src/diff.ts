@@ -0,0 +1,143 @@
+// src/diff.ts
+import {stripNoteBody} from "./wordcount";
+
+export type DiffGranularity = "paragraph" | "word";
+
+export interface DiffPart {
+    kind: "equal" | "added" | "removed";
+    text: string;
+}
+
+/**
+ * One paragraph of the comparison. A "changed" row pairs a removed paragraph with the added one that
+ * took its place, with the words that differ in `parts`.
+ */
+export type DiffRow =
+    | { kind: "equal", before: string, after: string }
+    | { kind: "removed", before: string }
+    | { kind: "added", after: string }
+    | { kind: "changed", before: string, after: string, parts: DiffPart[] };
+
+// Above this many table cells, the sequences are considered entirely rewritten rather than compared
+const MAX_CELLS = 4_000_000;
+
+type Edit<T> = { kind: DiffPart["kind"], a?: T, b?: T };
+
+/**
+ * Compares the bodies of two notes paragraph by paragraph, ignoring frontmatter and comments. At word
+ * granularity, paragraphs replaced in place are compared word by word.
+ */
+export function diffNotes(before: string, after: string, granularity: DiffGranularity): DiffRow[] {
+    const rows: DiffRow[] = [];
+    const removed: string[] = [];
+    const added: string[] = [];
+
+    const flush = () => {
+        const paired = granularity === "word" ? Math.min(removed.length, added.length) : 0;
+        for (let i = 0; i < paired; i++) {
+            rows.push({kind: "changed", before: removed[i], after: added[i], parts: diffWords(removed[i], added[i])});
+        }
+        removed.slice(paired).forEach(text => rows.push({kind: "removed", before: text}));
+        added.slice(paired).forEach(text => rows.push({kind: "added", after: text}));
+        removed.length = 0;
+        added.length = 0;
+    };
+
+    const edits = diffSequences(toParagraphs(before), toParagraphs(after), (a, b) => normalize(a) === normalize(b));
+    for (const edit of edits) {
+        if (edit.kind === "removed") {
+            removed.push(edit.a!);
+        } else if (edit.kind === "added") {
+            added.push(edit.b!);
+        } else {
+            flush();
+            rows.push({kind: "equal", before: edit.a!, after: edit.b!});
+        }
+    }
+    flush();
+    return rows;
+}
+
+/**
+ * Compares two texts word by word. Whitespace is kept with the parts, so that joining the equal and
+ * removed parts gives back `before`, and the equal and added parts `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const tokenize = (text: string) => text.split(/(\s+)/).filter(token => token);
+    const parts: DiffPart[] = [];
+
+    for (const edit of diffSequences(tokenize(before), tokenize(after), (a, b) => a === b)) {
+        const text = (edit.kind === "added" ? edit.b : edit.a)!;
+        const last = parts[parts.length - 1];
+        if (last?.kind === edit.kind) {
+            last.text += text;
+        } else {
+            parts.push({kind: edit.kind, text});
+        }
+    }
+    return parts;
+}
+
+function toParagraphs(text: string): string[] {
+    return stripNoteBody(text)
+        .split(/\r?\n[ \t]*\r?\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(paragraph => paragraph);
+}
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, " ");
+}
+
+/**
+ * A longest-common-subsequence diff. The common head and tail are matched first, so that the table
+ * only covers the part in between.
+ */
+function diffSequences<T>(a: T[], b: T[], equals: (a: T, b: T) => boolean): Edit<T>[] {
+    let head = 0;
+    while (head < a.length && head < b.length && equals(a[head], b[head])) head++;
+
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head
+        && equals(a[a.length - 1 - tail], b[b.length - 1 - tail])) tail++;
+
+    const edits: Edit<T>[] = [];
+    for (let i = 0; i < head; i++) edits.push({kind: "equal", a: a[i], b: b[i]});
+
+    const midA = a.slice(head, a.length - tail);
+    const midB = b.slice(head, b.length - tail);
+    const n = midA.length;
+    const m = midB.length;
+
+    if ((n + 1) * (m + 1) > MAX_CELLS) {
+        midA.forEach(item => edits.push({kind: "removed", a: item}));
+        midB.forEach(item => edits.push({kind: "added", b: item}));
+    } else {
+        // lengths[i * (m + 1) + j] is the LCS length of midA[i..] and midB[j..]
+        const lengths = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * (m + 1) + j] = equals(midA[i], midB[j])
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && equals(midA[i], midB[j])) {
+                edits.push({kind: "equal", a: midA[i++], b: midB[j++]});
+            } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+                edits.push({kind: "removed", a: midA[i++]});
+            } else {
+                edits.push({kind: "added", b: midB[j++]});
+            }
+        }
+    }
+
+    for (let i = tail; i > 0; i--) {
+        edits.push({kind: "equal", a: a[a.length - i], b: b[b.length - i]});
+    }
+    return edits;
+}
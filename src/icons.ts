@@ -0,0 +1,20 @@
+// src/icons.ts
+import {getIcon} from "obsidian";
+
+export function svgFromString(svgText: string): SVGElement {
+    const template = document.createElement("template");
+    template.innerHTML = svgText.trim();
+    return template.content.firstElementChild as SVGElement;
+}
+
+/**
+ * Resolves an icon name to an SVG, preferring the plugin's bundled icons and falling back to
+ * Obsidian's built-in (Lucide) icon set.
+ */
+export function iconFromName(name: string, bundled: Record<string, string>): SVGElement {
+    const svgText = bundled[name];
+    if (svgText) {
+        return svgFromString(svgText);
+    }
+    return getIcon(name) ?? getIcon("file-text") ?? document.createElementNS("http://www.w3.org/2000/svg", "svg");
+}
@@ -1,128 +1,217 @@
 // src/indexer.ts
-import {App, TFile} from "obsidian";
+import {App, EventRef, Events, getLinkpath, TFile} from "obsidian";
+import {formatNumber, formatRoman, getFullChapterLabel, getNumberStyle, renderLabel} from "./labels";
 import {logger} from './logger';
+import {parseChapterStatus} from "./status";
+import {parseStoryTime} from "./timeline";
 import {
+    AppearanceNavigationTargets,
+    BackReference,
+    BookDependencies,
     BookEntry,
     ChapterEntry,
+    ChapterKind,
+    CharacterEntry,
     ChapterNavigationTargets,
     ChapterStage,
+    DiagnosticKind,
+    IndexDiagnostic,
+    InferredFile,
     NavigationTarget,
+    NoteGroup,
     NovelIndex,
+    NovelNavigatorSettings,
+    PartEntry,
     PendingBook,
+    SeriesEntry,
+    StageDefinition,
     StageEntry,
     ToolbarMode
 } from "./types";
 
-export class NovelIndexer {
-    private lastIndex: NovelIndex | null = null;
+type Reporter = (kind: DiagnosticKind, file: TFile, message: string) => void;
+type NamedNote = { key: string, name: string, file?: TFile };
 
-    constructor(private app: App) {
+export class NovelIndexer extends Events {
+    private index: NovelIndex = {
+        books: new Map(),
+        chapters: new Map(),
+        stages: new Map(),
+        series: new Map(),
+        locations: new Map(),
+        characters: new Map(),
+    };
+    private isBuilt = false;
+
+    // Reverse dependency map: book info path → every chapter and stage file it was built from.
+    private bookDependencies = new Map<string, BookDependencies>();
+    // Book info path → the problems found while building it.
+    private bookDiagnostics = new Map<string, IndexDiagnostic[]>();
+    // Chapter or stage file path → the book info files that depend on it.
+    private fileDependents = new Map<string, Set<string>>();
+    // Lower-cased basename of an unresolved link → the book info files waiting for it to exist.
+    private unresolvedDependents = new Map<string, Set<string>>();
+
+    // Files matching the filename inference pattern, by lower-cased book ID and then path.
+    private inferredFiles = new Map<string, Map<string, InferredFile>>();
+    // Lower-cased book ID → the book info files that declare it.
+    private idDependents = new Map<string, Set<string>>();
+    private compiledPattern: { source: string, regex: RegExp | null } | null = null;
+
+    // Stage file path → the `chapter_refer`/`chapter_stage` back-reference it declares.
+    private backReferences = new Map<string, BackReference>();
+    // Chapter file path → the stage files referring back to it.
+    private referencesByChapter = new Map<string, Set<string>>();
+    // Lower-cased basename of an unresolved `chapter_refer` link → the stage files declaring it.
+    private unresolvedReferences = new Map<string, Set<string>>();
+
+    constructor(private app: App, private settings: NovelNavigatorSettings) {
+        super();
+    }
+
+    /**
+     * Fired whenever the index changes. `changedPaths` holds every book, chapter and stage file whose
+     * entry was removed, replaced or added, or is `null` after a full rebuild.
+     */
+    public on(name: "index-changed", callback: (changedPaths: Set<string> | null) => unknown, ctx?: any): EventRef;
+    public on(name: string, callback: (...data: any[]) => unknown, ctx?: any): EventRef {
+        return super.on(name, callback, ctx);
     }
 
+    // ─────────────────────────────────────────────
+    // Full Build
+    // ─────────────────────────────────────────────
+
     public async buildIndex(): Promise<NovelIndex> {
-        const pendingBooks: PendingBook[] = [];
-        const cache = this.app.metadataCache;
+        this.index.books.clear();
+        this.index.chapters.clear();
+        this.index.stages.clear();
+        this.index.series.clear();
+        this.index.locations.clear();
+        this.index.characters.clear();
+        this.bookDependencies.clear();
+        this.bookDiagnostics.clear();
+        this.fileDependents.clear();
+        this.unresolvedDependents.clear();
+        this.inferredFiles.clear();
+        this.idDependents.clear();
+        this.backReferences.clear();
+        this.referencesByChapter.clear();
+        this.unresolvedReferences.clear();
+
         const files = this.app.vault.getMarkdownFiles();
+        if (this.settings.inference.enabled) {
+            files.forEach(file => this.trackInferredFile(file));
+        }
+        files.forEach(file => this.trackBackReference(file));
 
-        // 1. Discover book info files
         for (const file of files) {
-            const fm = cache.getFileCache(file)?.frontmatter;
-            if (!fm?.book_title || !Array.isArray(fm.chapters)) {
-                continue;
-            }
+            this.indexBook(file);
+        }
 
-            const chapterFiles = fm.chapters
-                .map((link: string) => this.resolveWikiLink(link, file))
-                .filter((f): f is TFile => !!f);
+        this.isBuilt = true;
+        this.trigger("index-changed", null);
+        return this.index;
+    }
 
-            const prologueFile = this.resolveWikiLink(fm.prologue, file);
-            const epilogueFile = this.resolveWikiLink(fm.epilogue, file);
+    // ─────────────────────────────────────────────
+    // Incremental Updates
+    // ─────────────────────────────────────────────
 
-            pendingBooks.push({
-                bookFile: file,
-                title: fm.book_title,
-                prologueFile,
-                epilogueFile,
-                chapterFiles
-            });
+    /**
+     * Handles a metadataCache "changed" event. Only books that are, or depend on, the changed file are
+     * rebuilt, along with books whose unresolved links the file may now satisfy.
+     */
+    public handleFileChanged(file: TFile) {
+        if (!this.isBuilt) return;
+
+        const affected = this.getDependentBooks(file.path);
+        this.getUnresolvedDependents(file).forEach(path => affected.add(path));
+        this.trackInferredFile(file).forEach(path => affected.add(path));
+        this.trackBackReference(file).forEach(path => affected.add(path));
+        this.retrackReferences(this.unresolvedReferences.get(file.basename.toLowerCase()))
+            .forEach(path => affected.add(path));
+        if (this.isBookFile(file)) {
+            affected.add(file.path);
         }
 
-        const books = new Map<string, BookEntry>();
-        const chapters = new Map<string, ChapterEntry>();
-        const stages = new Map<string, StageEntry>();
+        this.reindexBooks(affected);
+    }
 
-        // 2. Build chapter entries
-        for (const pending of pendingBooks) {
-            const book: BookEntry = {
-                file: pending.bookFile,
-                title: pending.title,
-                chapters: [],
-            };
+    public handleFileRenamed(file: TFile, oldPath: string) {
+        if (!this.isBuilt) return;
 
-            books.set(book.file.path, book);
-
-            const allChapterFiles = [
-                pending.prologueFile,
-                ...pending.chapterFiles,
-                pending.epilogueFile
-            ].filter((f): f is TFile => !!f);
-
-            allChapterFiles.forEach((chapterFile, index) => {
-                const fm = cache.getFileCache(chapterFile)?.frontmatter ?? {};
-
-                const chapter: ChapterEntry = {
-                    book,
-                    file: chapterFile,
-                    index,
-                    kind: this.getChapterKind(chapterFile, pending),
-                    chapterNumber: null,
-                    chapterLabel: "",
-                    datetime: fm.chapter_datetime,
-                    location: fm.chapter_location,
-                    info: chapterFile,
-                    outline: this.resolveWikiLink(fm.chapter_outline, chapterFile),
-                    draft: this.resolveWikiLink(fm.chapter_draft, chapterFile),
-                    final: this.resolveWikiLink(fm.chapter_final, chapterFile),
-                };
-
-                book.chapters.push(chapter);
-                if (chapter.kind === "prologue") book.prologue = chapter;
-                if (chapter.kind === "epilogue") book.epilogue = chapter;
-
-                chapters.set(chapterFile.path, chapter);
-            });
+        // Everything keyed by the old path is rebuilt under the new one.
+        const affected = this.getDependentBooks(oldPath);
+        this.getUnresolvedDependents(file).forEach(path => affected.add(path));
+        this.trackInferredFile(file, oldPath).forEach(path => affected.add(path));
+        this.trackBackReference(file, oldPath).forEach(path => affected.add(path));
+        this.retrackReferences(this.referencesByChapter.get(oldPath)).forEach(path => affected.add(path));
+        this.retrackReferences(this.unresolvedReferences.get(file.basename.toLowerCase()))
+            .forEach(path => affected.add(path));
+        if (this.isBookFile(file)) {
+            affected.add(file.path);
+        }
+
+        const changed = new Set<string>([oldPath]);
+        this.reindexBooks(affected, changed);
+    }
+
+    public handleFileDeleted(file: TFile) {
+        if (!this.isBuilt) return;
 
-            this.assignLabelsAndNumbers(book);
+        const affected = this.getDependentBooks(file.path);
+        this.untrackInferredFile(file.path).forEach(path => affected.add(path));
+        this.untrackBackReference(file.path).forEach(path => affected.add(path));
+        this.retrackReferences(this.referencesByChapter.get(file.path)).forEach(path => affected.add(path));
+
+        this.reindexBooks(affected, new Set([file.path]));
+    }
+
+    // ─────────────────────────────────────────────
+    // Queries
+    // ─────────────────────────────────────────────
+
+    public getIndex(): NovelIndex {
+        return this.index;
+    }
+
+    /**
+     * Returns every problem found in the index: those collected while building each book, followed by
+     * stage files that do not belong to any book.
+     */
+    public getDiagnostics(): IndexDiagnostic[] {
+        const diagnostics = [...this.bookDiagnostics.values()].flat();
+
+        for (const reference of this.backReferences.values()) {
+            if (reference.chapterPath && this.index.chapters.has(reference.chapterPath)) continue;
+
+            diagnostics.push({
+                kind: "orphaned-stage",
+                file: reference.file,
+                message: reference.chapterPath
+                    ? `Refers to "${reference.chapterPath}", which is not a chapter of any book.`
+                    : `Refers to a chapter "${reference.unresolved}" that does not exist.`,
+            });
         }
 
-        // 3. Build stage entries
-        for (const chapter of chapters.values()) {
-            const potentialStages = [
-                {name: "outline", file: chapter.outline},
-                {name: "draft", file: chapter.draft},
-                {name: "final", file: chapter.final},
-            ] as const;
-
-            for (const s of potentialStages) {
-                if (s.file) {
-                    stages.set(s.file.path, {
-                        file: s.file,
-                        chapter,
-                        stage: s.name as any,
-                    });
-                }
+        for (const [bookId, files] of this.inferredFiles) {
+            if (this.idDependents.has(bookId)) continue;
+
+            for (const inferred of files.values()) {
+                diagnostics.push({
+                    kind: "orphaned-stage",
+                    file: inferred.file,
+                    message: `Named as part of book "${bookId}", but no book info file declares that ID.`,
+                });
             }
         }
 
-        const index = {books, chapters, stages};
-        this.lastIndex = index; // Cache it for navigation lookups.
-        return index;
+        return diagnostics;
     }
 
     public resolveToolbarModeForFile(file: TFile): ToolbarMode {
-        if (!this.lastIndex) return {kind: "none"};
-
-        const {books, chapters, stages} = this.lastIndex;
+        const {books, chapters, stages} = this.index;
 
         const stage = stages.get(file.path);
         if (stage) return {kind: "chapter-stage", stage};
@@ -138,20 +227,26 @@ export class NovelIndexer {
         const book = books.get(file.path);
         if (book) return {kind: "book-info", book};
 
+        const location = this.index.locations.get(file.path);
+        if (location) return {kind: "location", location};
+
+        const character = this.index.characters.get(file.path);
+        if (character) return {kind: "character", character};
+
         return {kind: "none"};
     }
 
     public resolveWikiLink(link: string | undefined, sourceFile: TFile): TFile | undefined {
         if (!link) return undefined;
         const dest = this.app.metadataCache.getFirstLinkpathDest(
-            link.replace(/^\[\[|]]$/g, ""),
+            this.getLinkText(link),
             sourceFile.path
         );
         return dest ?? undefined;
     }
 
     public getNavigationTargets(stage: StageEntry): ChapterNavigationTargets {
-        if (!this.lastIndex) {
+        if (!this.isBuilt) {
             logger.warn("Navigation requested before index was built.");
         }
 
@@ -161,56 +256,1160 @@ export class NovelIndexer {
             bookInfo: this.getBookInfoTarget(chapter.book),
 
             chapterInfo: this.getStageTarget(chapter, "info"),
-            outline: this.getStageTarget(chapter, "outline"),
-            draft: this.getStageTarget(chapter, "draft"),
-            final: this.getStageTarget(chapter, "final"),
+            stages: this.getStageDefinitions().map(definition => ({
+                definition,
+                target: this.getStageTarget(chapter, definition.name),
+            })),
 
             previous: this.getAdjacentChapterTarget(chapter, stage.stage, "previous"),
             next: this.getAdjacentChapterTarget(chapter, stage.stage, "next"),
+            first: this.getBoundaryChapterTarget(chapter, stage.stage, "first"),
+            last: this.getBoundaryChapterTarget(chapter, stage.stage, "last"),
+        };
+    }
+
+    /**
+     * Targets a character's appearances before and after the chapter navigated from, opening the same
+     * stage where the appearance has it and its chapter info file otherwise. Without a chapter to
+     * start from, Next goes to the first appearance.
+     */
+    public getAppearanceTargets(character: CharacterEntry, from: StageEntry | null): AppearanceNavigationTargets {
+        const chapters = character.chapters;
+        const stage = from?.stage ?? "info";
+
+        let previous = -1;
+        let next = 0;
+        if (from) {
+            const position = chapters.indexOf(from.chapter);
+            if (position >= 0) {
+                previous = position - 1;
+                next = position + 1;
+            } else {
+                // Not an appearance itself: its neighbours are the appearances around it
+                next = chapters.filter(c => this.compareReadingOrder(c, from.chapter) < 0).length;
+                previous = next - 1;
+            }
+        }
+
+        const toTarget = (chapter: ChapterEntry | undefined): NavigationTarget => {
+            if (!chapter) return {kind: "disabled"};
+
+            const targetStage = this.getStageFile(chapter, stage) ? stage : "info";
+            const file = this.getStageFile(chapter, targetStage) ?? chapter.file;
+            const label = this.describeTarget(chapter, targetStage, from?.chapter.book ?? chapter.book);
+            return {kind: "file", file, label};
         };
+
+        return {previous: toTarget(chapters[previous]), next: toTarget(chapters[next])};
+    }
+
+    /**
+     * Returns the book before or after the given one in its series, if any.
+     */
+    public getAdjacentBook(book: BookEntry, direction: "previous" | "next"): BookEntry | undefined {
+        const books = book.series?.books ?? [];
+        const position = books.indexOf(book);
+        if (position < 0) return undefined;
+
+        return books[position + (direction === "next" ? 1 : -1)];
+    }
+
+    /**
+     * Returns the configured stages that can actually be indexed: each needs a unique name other than
+     * the reserved "info" stage, and a frontmatter key.
+     */
+    public getStageDefinitions(): StageDefinition[] {
+        const seen = new Set<ChapterStage>(["info"]);
+        return this.settings.stages.filter(definition => {
+            if (!definition.name || !definition.key || seen.has(definition.name)) {
+                return false;
+            }
+            seen.add(definition.name);
+            return true;
+        });
+    }
+
+    // ─────────────────────────────────────────────
+    // Book Construction
+    // ─────────────────────────────────────────────
+
+    /**
+     * Builds the entries for a single book info file and registers them, with their dependencies, in
+     * the index. Returns the paths of every file the new entries cover.
+     */
+    private indexBook(file: TFile): Set<string> {
+        const covered = new Set<string>();
+        if (!this.isBookFile(file)) {
+            return covered;
+        }
+
+        const cache = this.app.metadataCache;
+        const keys = this.settings.properties;
+        const fm = cache.getFileCache(file)!.frontmatter!;
+        const dependencies: BookDependencies = {files: new Set(), unresolved: new Set()};
+        const diagnostics: IndexDiagnostic[] = [];
+        const report: Reporter = (kind, source, message) => diagnostics.push({kind, book: file, file: source, message});
+
+        // 1. Resolve the book's chapter list, which its parts replace when it has them
+        const parts = this.getParts(fm);
+        const hasChapterList = parts !== null || Array.isArray(fm[keys.chapters]);
+        const chapterParts = new Map<TFile, number>();
+        const chapterFiles = (parts ?? [{chapters: hasChapterList ? fm[keys.chapters] as unknown[] : []}])
+            .flatMap((part, partIndex) => part.chapters
+                .map(link => this.resolveDependency(link as string, file, dependencies, report))
+                .filter((f): f is TFile => !!f)
+                .map(chapterFile => {
+                    if (parts) chapterParts.set(chapterFile, partIndex);
+                    return chapterFile;
+                }));
+
+        const bookId = this.getBookId(fm);
+        dependencies.bookId = bookId;
+
+        const pending: PendingBook = {
+            bookFile: file,
+            title: fm[keys.bookTitle],
+            prologueFile: this.resolveDependency(fm[keys.prologue], file, dependencies, report),
+            epilogueFile: this.resolveDependency(fm[keys.epilogue], file, dependencies, report),
+            chapterFiles,
+            parts: parts ?? [],
+            chapterParts,
+            bookId,
+            inferredChapters: this.getInferredChapters(bookId, dependencies, report),
+        };
+
+        const book: BookEntry = {
+            file: pending.bookFile,
+            title: pending.title,
+            id: bookId,
+            chapters: [],
+            parts: [],
+        };
+
+        this.index.books.set(book.file.path, book);
+        covered.add(book.file.path);
+        this.addToSeries(book, fm, dependencies);
+
+        // 2. Build chapter entries
+        const allChapterFiles = [
+            pending.prologueFile,
+            ...pending.chapterFiles,
+            pending.epilogueFile
+        ].filter((f): f is TFile => !!f);
+
+        const stageDefinitions = this.getStageDefinitions();
+
+        // Parts are numbered by their place in the list, empty ones included
+        pending.parts.forEach((part, index) => {
+            const label = `Part ${formatRoman(index + 1)}`;
+            book.parts.push({book, index, label, title: part.title ?? label, chapters: []});
+        });
+
+        allChapterFiles.forEach((chapterFile, index) => {
+            const chapterFm = cache.getFileCache(chapterFile)?.frontmatter ?? {};
+            const chapter = this.createChapter(book, chapterFile, chapterFile, index, this.getChapterKind(chapterFile, pending));
+
+            const partIndex = pending.chapterParts.get(chapterFile);
+            if (partIndex !== undefined && chapter.kind !== "prologue" && chapter.kind !== "epilogue") {
+                chapter.part = book.parts[partIndex];
+                chapter.part.chapters.push(chapter);
+            }
+
+            for (const definition of stageDefinitions) {
+                const stageFile = this.resolveDependency(chapterFm[definition.key], chapterFile, dependencies, report);
+                if (stageFile) {
+                    chapter.stages.set(definition.name, stageFile);
+                }
+            }
+
+            book.chapters.push(chapter);
+            if (chapter.kind === "prologue") book.prologue = chapter;
+            if (chapter.kind === "epilogue") book.epilogue = chapter;
+        });
+
+        // Books without a chapter list are built entirely from file names
+        if (!hasChapterList) {
+            this.buildInferredChapters(book, pending);
+        }
+
+        this.mergeBackReferences(book, dependencies, report);
+
+        const listed = new Set<string>();
+        for (const chapter of book.chapters) {
+            const owner = this.index.chapters.get(chapter.file.path);
+            if (listed.has(chapter.file.path)) {
+                report("duplicate-chapter", book.file, `"${chapter.file.path}" is listed more than once.`);
+            } else if (owner && owner.book !== book) {
+                report("duplicate-chapter", book.file, `"${chapter.file.path}" is also listed in "${owner.book.title}".`);
+            }
+
+            if (!listed.has(chapter.file.path)) {
+                this.addToNoteGroups(chapter, dependencies);
+            }
+
+            listed.add(chapter.file.path);
+            this.index.chapters.set(chapter.file.path, chapter);
+            covered.add(chapter.file.path);
+        }
+
+        this.assignLabelsAndNumbers(book);
+
+        if (hasChapterList) {
+            this.mergeInferredStages(book, pending, report);
+        }
+
+        this.deriveStatuses(book);
+
+        // 3. Build stage entries
+        for (const chapter of book.chapters) {
+            if (chapter.stages.size === 0) {
+                report("empty-chapter", chapter.file, `${getFullChapterLabel(chapter)} has no stage files.`);
+            }
+
+            for (const [stage, stageFile] of chapter.stages) {
+                const owner = this.index.stages.get(stageFile.path);
+                if (owner && owner.chapter.book === book && (owner.chapter !== chapter || owner.stage !== stage)) {
+                    report("duplicate-stage", stageFile, `Used as the ${owner.stage} stage of `
+                        + `${getFullChapterLabel(owner.chapter)} and the ${stage} stage of `
+                        + `${getFullChapterLabel(chapter)}.`);
+                } else if (owner && owner.chapter.book !== book) {
+                    report("duplicate-stage", stageFile, `Used as the ${stage} stage of `
+                        + `${getFullChapterLabel(chapter)}, and also in "${owner.chapter.book.title}".`);
+                }
+
+                this.index.stages.set(stageFile.path, {file: stageFile, chapter, stage});
+                covered.add(stageFile.path);
+            }
+        }
+
+        this.registerDependencies(book.file.path, dependencies);
+        this.bookDiagnostics.set(book.file.path, diagnostics);
+        return covered;
+    }
+
+    private createChapter(
+        book: BookEntry,
+        file: TFile,
+        info: TFile | undefined,
+        index: number,
+        kind: ChapterKind
+    ): ChapterEntry {
+        const keys = this.settings.properties;
+        const fm = info ? this.app.metadataCache.getFileCache(info)?.frontmatter ?? {} : {};
+        const status = parseChapterStatus(fm[keys.chapterStatus]);
+        const title = fm[keys.chapterTitle];
+        // Only chapters can be made interludes; the prologue and epilogue are set by the book
+        const isInterlude = kind === "chapter" && String(fm[keys.chapterKind]).toLowerCase() === "interlude";
+
+        return {
+            book,
+            file,
+            index,
+            kind: isInterlude ? "interlude" : kind,
+            chapterNumber: null,
+            chapterLabel: "",
+            shortLabel: "",
+            title: typeof title === "string" || typeof title === "number" ? String(title).trim() || undefined : undefined,
+            numbered: String(fm[keys.chapterNumbered]).toLowerCase() !== "false",
+            datetime: fm[keys.chapterDatetime],
+            time: parseStoryTime(fm[keys.chapterDatetime], this.settings.timeline.formats),
+            flashback: fm[keys.chapterFlashback] === true || String(fm[keys.chapterFlashback]).toLowerCase() === "true",
+            location: fm[keys.chapterLocation],
+            locations: [],
+            characters: [],
+            targetWords: this.getPositiveNumber(fm[keys.chapterTargetWords]),
+            status: status ?? "planned",
+            hasExplicitStatus: status !== undefined,
+            info,
+            stages: new Map(),
+        };
+    }
+
+    /**
+     * Fills the stages that forward links left empty with stage files that refer back to the chapter.
+     * Forward links win; stage files that disagree with them, or with each other, are reported.
+     */
+    private mergeBackReferences(book: BookEntry, dependencies: BookDependencies, report: Reporter) {
+        for (const chapter of book.chapters) {
+            const explicit = new Map(chapter.stages);
+
+            // Forward links whose target declares a different chapter or stage
+            for (const [stage, stageFile] of explicit) {
+                const reference = this.backReferences.get(stageFile.path);
+                if (!reference) continue;
+
+                if (!this.isReferenceToChapter(reference, chapter)) {
+                    report("conflict", stageFile, `Linked as the ${stage} stage of "${chapter.file.path}", `
+                        + `but refers to a different chapter.`);
+                } else if (reference.stage !== stage) {
+                    report("conflict", stageFile, `Linked as the ${stage} stage of "${chapter.file.path}", `
+                        + `but declares stage "${reference.rawStage ?? ""}".`);
+                }
+            }
+
+            const referencing = [chapter.file.path, chapter.info?.path]
+                .filter((p): p is string => !!p)
+                .flatMap(p => [...(this.referencesByChapter.get(p) ?? [])])
+                .sort();
+
+            for (const path of new Set(referencing)) {
+                const reference = this.backReferences.get(path)!;
+                dependencies.files.add(path);
+
+                if (!reference.stage) {
+                    report("conflict", reference.file, `Refers to "${chapter.file.path}" but declares `
+                        + `an unknown stage "${reference.rawStage ?? ""}".`);
+                    continue;
+                }
+
+                const linked = chapter.stages.get(reference.stage);
+                if (!linked) {
+                    chapter.stages.set(reference.stage, reference.file);
+                } else if (linked !== reference.file) {
+                    const claimedBy = explicit.has(reference.stage) ? "links" : "is already referred to by";
+                    report("conflict", reference.file, `Declares itself the ${reference.stage} stage of `
+                        + `"${chapter.file.path}", which ${claimedBy} "${linked.path}".`);
+                }
+            }
+        }
+    }
+
+    private isReferenceToChapter(reference: BackReference, chapter: ChapterEntry): boolean {
+        return reference.chapterPath === chapter.file.path || reference.chapterPath === chapter.info?.path;
+    }
+
+    /**
+     * Appends a chapter for every inferred chapter number, in order. A chapter's own file is its
+     * inferred info file (stage 0), or its earliest stage file when there is none.
+     */
+    private buildInferredChapters(book: BookEntry, pending: PendingBook) {
+        const stageDefinitions = this.getStageDefinitions();
+        const numbers = [...pending.inferredChapters.keys()].sort((a, b) => a - b);
+
+        for (const chapterNumber of numbers) {
+            const stageFiles = pending.inferredChapters.get(chapterNumber)!;
+            const info = stageFiles.get(0);
+            const firstIndex = Math.min(...[...stageFiles.keys()].filter(i => i > 0 && i <= stageDefinitions.length));
+            const file = info ?? stageFiles.get(firstIndex);
+            if (!file) continue;
+
+            const chapter = this.createChapter(book, file, info, book.chapters.length, "chapter");
+            stageDefinitions.forEach((definition, i) => {
+                const stageFile = stageFiles.get(i + 1);
+                if (stageFile) {
+                    chapter.stages.set(definition.name, stageFile);
+                }
+            });
+
+            book.chapters.push(chapter);
+        }
+    }
+
+    /**
+     * Fills the stages that explicit links left empty with inferred files of the same chapter number.
+     * File names number chapters through the whole book, even where the labels restart in each part.
+     * Explicit links always win; any disagreement with the file names is reported.
+     */
+    private mergeInferredStages(book: BookEntry, pending: PendingBook, report: Reporter) {
+        if (pending.inferredChapters.size === 0) return;
+
+        const stageDefinitions = this.getStageDefinitions();
+        const matched = new Set<number>();
+        let chapterNumber = 0;
+
+        for (const chapter of book.chapters) {
+            if (chapter.chapterNumber === null) continue;
+
+            const stageFiles = pending.inferredChapters.get(++chapterNumber);
+            if (!stageFiles) continue;
+            matched.add(chapterNumber);
+
+            const inferredInfo = stageFiles.get(0);
+            if (inferredInfo && inferredInfo !== chapter.info) {
+                report("conflict", inferredInfo, `Named as the chapter info file of ${getFullChapterLabel(chapter)}, `
+                    + `which the book links to "${chapter.file.path}".`);
+            }
+
+            stageDefinitions.forEach((definition, i) => {
+                const inferred = stageFiles.get(i + 1);
+                const explicit = chapter.stages.get(definition.name);
+                if (!inferred) return;
+
+                if (!explicit) {
+                    chapter.stages.set(definition.name, inferred);
+                } else if (explicit !== inferred) {
+                    report("conflict", inferred, `Named as the ${definition.name} stage of `
+                        + `${getFullChapterLabel(chapter)}, which links "${explicit.path}".`);
+                }
+            });
+        }
+
+        for (const [chapterNumber, stageFiles] of pending.inferredChapters) {
+            if (!matched.has(chapterNumber)) {
+                for (const stageFile of stageFiles.values()) {
+                    report("orphaned-stage", stageFile, `Named as chapter ${chapterNumber}, which the book does not list.`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Gives chapters without a `chapter_status` one based on their most advanced stage file: none is
+     * planned, the first stage is outlining, the last is revising, and any in between is drafting.
+     * Only an explicit status can mark a chapter done.
+     */
+    private deriveStatuses(book: BookEntry) {
+        const names = this.getStageDefinitions().map(d => d.name);
+
+        for (const chapter of book.chapters) {
+            if (chapter.hasExplicitStatus) continue;
+
+            const latest = names.reduce((found, name, i) => chapter.stages.has(name) ? i : found, -1);
+            chapter.status = latest < 0 ? "planned"
+                : latest === 0 && names.length > 1 ? "outlining"
+                    : latest === names.length - 1 && names.length > 2 ? "revising"
+                        : "drafting";
+        }
+    }
+
+    /**
+     * Removes a book's entries and dependencies from the index. Entries that another book has since
+     * claimed are left alone. Returns the paths of every file the removed entries covered.
+     */
+    private removeBook(path: string): Set<string> {
+        const covered = new Set<string>();
+        const book = this.index.books.get(path);
+
+        this.unregisterDependencies(path);
+        this.bookDiagnostics.delete(path);
+        if (!book) {
+            return covered;
+        }
+
+        this.index.books.delete(path);
+        covered.add(path);
+        this.removeFromSeries(book);
+
+        for (const chapter of book.chapters) {
+            covered.add(chapter.file.path);
+            this.removeFromNoteGroups(chapter);
+            if (this.index.chapters.get(chapter.file.path)?.book === book) {
+                this.index.chapters.delete(chapter.file.path);
+            }
+
+            for (const stageFile of chapter.stages.values()) {
+                covered.add(stageFile.path);
+                if (this.index.stages.get(stageFile.path)?.chapter === chapter) {
+                    this.index.stages.delete(stageFile.path);
+                }
+            }
+        }
+
+        return covered;
+    }
+
+    private reindexBooks(bookPaths: Set<string>, changed = new Set<string>()) {
+        if (bookPaths.size === 0 && changed.size === 0) {
+            return;
+        }
+
+        // Series whose book list changes; navigation across every one of their books may change with it
+        const series = new Set<SeriesEntry>();
+        // Locations and characters whose chapter list may change, so that toolbars on their notes are refreshed
+        const groups = new Set<NoteGroup>();
+        const addGroups = (book: BookEntry | undefined) => book?.chapters.forEach(chapter => {
+            chapter.locations.forEach(l => groups.add(l));
+            chapter.characters.forEach(c => groups.add(c));
+        });
+
+        for (const path of this.withSharedBooks(bookPaths)) {
+            const previous = this.index.books.get(path);
+            if (previous?.series) series.add(previous.series);
+            addGroups(previous);
+
+            this.removeBook(path).forEach(p => changed.add(p));
+
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                this.indexBook(file).forEach(p => changed.add(p));
+            }
+
+            const current = this.index.books.get(path);
+            if (current?.series) series.add(current.series);
+            addGroups(current);
+        }
+
+        for (const entry of series) {
+            entry.books.forEach(book => this.getBookPaths(book).forEach(p => changed.add(p)));
+        }
+        for (const group of groups) {
+            if (group.file) changed.add(group.file.path);
+        }
+
+        this.trigger("index-changed", changed);
+    }
+
+    // ─────────────────────────────────────────────
+    // Series
+    // ─────────────────────────────────────────────
+
+    /**
+     * Adds a book to the series its `series` property names, keeping the series' books in reading
+     * order. A link to a series note groups books by that note; anything else groups them by name.
+     */
+    private addToSeries(book: BookEntry, fm: Record<string, any>, dependencies: BookDependencies) {
+        const named = this.resolveNamedNote(fm[this.settings.properties.series], book.file, dependencies);
+        if (!named) return;
+
+        let series = this.index.series.get(named.key);
+        if (!series) {
+            series = {...named, books: []};
+            this.index.series.set(named.key, series);
+        }
+
+        const order = parseFloat(fm[this.settings.properties.seriesOrder]);
+        book.series = series;
+        book.seriesOrder = isNaN(order) ? undefined : order;
+
+        series.books.push(book);
+        series.books.sort((a, b) =>
+            (a.seriesOrder ?? Infinity) - (b.seriesOrder ?? Infinity)
+            || a.title.localeCompare(b.title)
+            || a.file.path.localeCompare(b.file.path)
+        );
     }
 
+    private removeFromSeries(book: BookEntry) {
+        const series = book.series;
+        if (!series) return;
+
+        series.books = series.books.filter(b => b !== book);
+        if (series.books.length === 0 && this.index.series.get(series.key) === series) {
+            this.index.series.delete(series.key);
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Locations & Characters
+    // ─────────────────────────────────────────────
+
+    /**
+     * Adds a chapter to the locations its `chapter_location` names, and to the characters its
+     * `chapter_pov` and `chapter_characters` name. The POV character counts as appearing.
+     */
+    private addToNoteGroups(chapter: ChapterEntry, dependencies: BookDependencies) {
+        const keys = this.settings.properties;
+        const fm = chapter.info ? this.app.metadataCache.getFileCache(chapter.info)?.frontmatter : undefined;
+        const source = chapter.info ?? chapter.file;
+
+        for (const named of this.resolveNamedNotes(fm?.[keys.chapterLocation], source, dependencies)) {
+            this.joinGroup(this.index.locations, chapter.locations, named, chapter);
+        }
+
+        const [pov] = this.resolveNamedNotes(fm?.[keys.chapterPov], source, dependencies);
+        if (pov) {
+            chapter.pov = this.joinGroup(this.index.characters, chapter.characters, pov, chapter);
+        }
+        for (const named of this.resolveNamedNotes(fm?.[keys.chapterCharacters], source, dependencies)) {
+            this.joinGroup(this.index.characters, chapter.characters, named, chapter);
+        }
+    }
+
+    private removeFromNoteGroups(chapter: ChapterEntry) {
+        this.leaveGroups(this.index.locations, chapter.locations, chapter);
+        this.leaveGroups(this.index.characters, chapter.characters, chapter);
+    }
+
+    /**
+     * Adds a chapter to the group (location or character) with the note's key, creating it if needed.
+     * Chapters are kept ordered by book title and reading order.
+     */
+    private joinGroup(
+        groups: Map<string, NoteGroup>,
+        memberships: NoteGroup[],
+        named: NamedNote,
+        chapter: ChapterEntry
+    ): NoteGroup {
+        let group = groups.get(named.key);
+        if (!group) {
+            group = {...named, chapters: []};
+            groups.set(named.key, group);
+        }
+
+        if (!group.chapters.includes(chapter)) {
+            group.chapters.push(chapter);
+            group.chapters.sort((a, b) => this.compareReadingOrder(a, b));
+        }
+        if (!memberships.includes(group)) {
+            memberships.push(group);
+        }
+        return group;
+    }
+
+    /**
+     * Orders chapters of different books by book title, then each book's chapters in reading order.
+     */
+    private compareReadingOrder(a: ChapterEntry, b: ChapterEntry): number {
+        return a.book.title.localeCompare(b.book.title)
+            || a.book.file.path.localeCompare(b.book.file.path)
+            || a.index - b.index;
+    }
+
+    private leaveGroups(
+        groups: Map<string, NoteGroup>,
+        memberships: NoteGroup[],
+        chapter: ChapterEntry
+    ) {
+        for (const group of memberships) {
+            group.chapters = group.chapters.filter(c => c !== chapter);
+            if (group.chapters.length === 0 && groups.get(group.key) === group) {
+                groups.delete(group.key);
+            }
+        }
+    }
+
+    /**
+     * Reads a property that either names something or links to a note about it, as series, locations
+     * and characters do. Linked notes become dependencies; links that don't resolve yet are tracked so
+     * that creating the note picks it up.
+     */
+    private resolveNamedNote(value: unknown, sourceFile: TFile, dependencies: BookDependencies): NamedNote | undefined {
+        if (typeof value !== "string" && typeof value !== "number") return undefined;
+
+        const raw = String(value).trim();
+        if (!raw) return undefined;
+
+        const isLink = /^\[\[.*]]$/.test(raw);
+        const file = isLink ? this.resolveWikiLink(raw, sourceFile) : undefined;
+        if (file) {
+            dependencies.files.add(file.path);
+        } else if (isLink) {
+            dependencies.unresolved.add(this.getLinkBasename(raw));
+        }
+
+        const name = file?.basename ?? (isLink ? getLinkpath(this.getLinkText(raw)).split("/").pop()! : raw);
+        return {key: file?.path ?? name.toLowerCase(), name, file};
+    }
+
+    private resolveNamedNotes(value: unknown, sourceFile: TFile, dependencies: BookDependencies): NamedNote[] {
+        const values: unknown[] = Array.isArray(value) ? value : [value];
+        return values
+            .map(item => this.resolveNamedNote(item, sourceFile, dependencies))
+            .filter((named): named is NamedNote => !!named);
+    }
+
+    /**
+     * Every book, chapter and stage file path a book's entries cover.
+     */
+    private getBookPaths(book: BookEntry): Set<string> {
+        const paths = new Set<string>([book.file.path]);
+        for (const chapter of book.chapters) {
+            paths.add(chapter.file.path);
+            chapter.stages.forEach(file => paths.add(file.path));
+        }
+        return paths;
+    }
+
+    // ─────────────────────────────────────────────
+    // Dependency Tracking
+    // ─────────────────────────────────────────────
+
+    private getDependentBooks(path: string): Set<string> {
+        const books = new Set(this.fileDependents.get(path));
+        if (this.bookDependencies.has(path)) {
+            books.add(path);
+        }
+        return books;
+    }
+
+    /**
+     * Adds the books sharing a chapter or stage file with any of the given books, so that entries
+     * claimed by more than one book are rebuilt (and reported) together.
+     */
+    private withSharedBooks(bookPaths: Set<string>): Set<string> {
+        const result = new Set(bookPaths);
+        for (const path of bookPaths) {
+            for (const file of this.bookDependencies.get(path)?.files ?? []) {
+                this.fileDependents.get(file)?.forEach(p => result.add(p));
+            }
+        }
+        return result;
+    }
+
+    private getUnresolvedDependents(file: TFile): Set<string> {
+        return new Set(this.unresolvedDependents.get(file.basename.toLowerCase()));
+    }
+
+    private registerDependencies(bookPath: string, dependencies: BookDependencies) {
+        this.bookDependencies.set(bookPath, dependencies);
+
+        for (const path of dependencies.files) {
+            this.addToSetMap(this.fileDependents, path, bookPath);
+        }
+        for (const name of dependencies.unresolved) {
+            this.addToSetMap(this.unresolvedDependents, name, bookPath);
+        }
+        if (dependencies.bookId !== undefined) {
+            this.addToSetMap(this.idDependents, dependencies.bookId, bookPath);
+        }
+    }
+
+    private unregisterDependencies(bookPath: string) {
+        const dependencies = this.bookDependencies.get(bookPath);
+        if (!dependencies) return;
+
+        for (const path of dependencies.files) {
+            this.removeFromSetMap(this.fileDependents, path, bookPath);
+        }
+        for (const name of dependencies.unresolved) {
+            this.removeFromSetMap(this.unresolvedDependents, name, bookPath);
+        }
+        if (dependencies.bookId !== undefined) {
+            this.removeFromSetMap(this.idDependents, dependencies.bookId, bookPath);
+        }
+        this.bookDependencies.delete(bookPath);
+    }
+
+    private resolveDependency(
+        link: string | undefined,
+        sourceFile: TFile,
+        dependencies: BookDependencies,
+        report: Reporter
+    ): TFile | undefined {
+        if (typeof link !== "string" || !link) return undefined;
+
+        const file = this.resolveWikiLink(link, sourceFile);
+        if (file) {
+            dependencies.files.add(file.path);
+        } else {
+            dependencies.unresolved.add(this.getLinkBasename(link));
+            report("unresolved-link", sourceFile, `"${link}" does not resolve to a file.`);
+        }
+        return file;
+    }
+
+    // ─────────────────────────────────────────────
+    // Back-References
+    // ─────────────────────────────────────────────
+
+    /**
+     * Records (or re-records) the back-reference a stage file declares. Returns the book info files
+     * containing the chapters it used to, or now does, refer to; none when the reference is unchanged.
+     */
+    private trackBackReference(file: TFile, oldPath?: string): Set<string> {
+        const previous = this.backReferences.get(oldPath ?? file.path);
+        const reference = this.parseBackReference(file);
+
+        if (previous && reference && !oldPath
+            && previous.chapterPath === reference.chapterPath
+            && previous.unresolved === reference.unresolved
+            && previous.stage === reference.stage
+            && previous.rawStage === reference.rawStage) {
+            return new Set();
+        }
+
+        const affected = this.untrackBackReference(oldPath ?? file.path);
+        if (!reference) return affected;
+
+        this.backReferences.set(file.path, reference);
+        if (reference.chapterPath) {
+            this.addToSetMap(this.referencesByChapter, reference.chapterPath, file.path);
+            this.getDependentBooks(reference.chapterPath).forEach(path => affected.add(path));
+        } else if (reference.unresolved) {
+            this.addToSetMap(this.unresolvedReferences, reference.unresolved, file.path);
+        }
+        return affected;
+    }
+
+    private untrackBackReference(path: string): Set<string> {
+        const previous = this.backReferences.get(path);
+        if (!previous) return new Set();
+
+        this.backReferences.delete(path);
+        if (previous.chapterPath) {
+            this.removeFromSetMap(this.referencesByChapter, previous.chapterPath, path);
+        } else if (previous.unresolved) {
+            this.removeFromSetMap(this.unresolvedReferences, previous.unresolved, path);
+        }
+        return previous.chapterPath ? this.getDependentBooks(previous.chapterPath) : new Set();
+    }
+
+    /**
+     * Re-resolves the back-references of the given stage files, e.g. after the chapter file they point
+     * at was renamed, deleted or created.
+     */
+    private retrackReferences(paths: Set<string> | undefined): Set<string> {
+        const affected = new Set<string>();
+        for (const path of [...(paths ?? [])]) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            this.untrackBackReference(path).forEach(p => affected.add(p));
+            this.trackBackReference(file).forEach(p => affected.add(p));
+        }
+        return affected;
+    }
+
+    private parseBackReference(file: TFile): BackReference | null {
+        const keys = this.settings.properties;
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const link = fm?.[keys.chapterRefer];
+        if (typeof link !== "string" || !link) return null;
+
+        const rawStage = fm![keys.chapterStage] != null ? String(fm![keys.chapterStage]) : undefined;
+        const reference: BackReference = {file, rawStage, stage: this.matchStage(rawStage)};
+
+        const chapter = this.resolveWikiLink(link, file);
+        if (chapter) {
+            if (chapter === file) return null;
+            reference.chapterPath = chapter.path;
+        } else {
+            reference.unresolved = this.getLinkBasename(link);
+        }
+        return reference;
+    }
+
+    private matchStage(value: string | undefined): ChapterStage | undefined {
+        const needle = value?.trim().toLowerCase();
+        if (!needle) return undefined;
+
+        return this.getStageDefinitions().find(definition =>
+            definition.name.toLowerCase() === needle || definition.label.toLowerCase() === needle
+        )?.name;
+    }
+
+    // ─────────────────────────────────────────────
+    // Filename Inference
+    // ─────────────────────────────────────────────
+
+    /**
+     * Records (or re-records) a file under the book ID its name implies. Returns the book info files
+     * whose inferred chapters changed, which is none when the file's name still parses the same way.
+     */
+    private trackInferredFile(file: TFile, oldPath?: string): Set<string> {
+        if (!this.settings.inference.enabled) return new Set();
+
+        const previous = this.findInferredFile(oldPath ?? file.path);
+        const parsed = this.parseFileName(file);
+
+        if (previous && parsed && !oldPath
+            && previous.bookId === parsed.bookId
+            && previous.chapterNumber === parsed.chapterNumber
+            && previous.stageIndex === parsed.stageIndex) {
+            return new Set();
+        }
+
+        const affected = this.untrackInferredFile(oldPath ?? file.path);
+        if (parsed) {
+            let files = this.inferredFiles.get(parsed.bookId);
+            if (!files) {
+                files = new Map();
+                this.inferredFiles.set(parsed.bookId, files);
+            }
+            files.set(file.path, parsed);
+            this.idDependents.get(parsed.bookId)?.forEach(path => affected.add(path));
+        }
+        return affected;
+    }
+
+    private untrackInferredFile(path: string): Set<string> {
+        const affected = new Set<string>();
+        const previous = this.findInferredFile(path);
+        if (!previous) return affected;
+
+        const files = this.inferredFiles.get(previous.bookId)!;
+        files.delete(path);
+        if (files.size === 0) {
+            this.inferredFiles.delete(previous.bookId);
+        }
+
+        this.idDependents.get(previous.bookId)?.forEach(bookPath => affected.add(bookPath));
+        return affected;
+    }
+
+    private findInferredFile(path: string): InferredFile | undefined {
+        for (const files of this.inferredFiles.values()) {
+            const inferred = files.get(path);
+            if (inferred) return inferred;
+        }
+        return undefined;
+    }
+
+    private parseFileName(file: TFile): InferredFile | null {
+        const regex = this.getInferencePattern();
+        const groups = regex?.exec(file.basename)?.groups;
+        if (!groups?.book || !groups.chapter) return null;
+
+        const chapterNumber = parseInt(groups.chapter, 10);
+        const stageIndex = groups.stage ? parseInt(groups.stage, 10) : 0;
+        if (isNaN(chapterNumber) || isNaN(stageIndex)) return null;
+
+        return {file, bookId: groups.book.toLowerCase(), chapterNumber, stageIndex};
+    }
+
+    private getInferencePattern(): RegExp | null {
+        const source = this.settings.inference.pattern;
+        if (this.compiledPattern?.source !== source) {
+            let regex: RegExp | null = null;
+            try {
+                regex = new RegExp(source);
+            } catch (e) {
+                logger.warn(`Invalid file name pattern "${source}"; filename inference is off.`, e);
+            }
+            this.compiledPattern = {source, regex};
+        }
+        return this.compiledPattern.regex;
+    }
+
+    private getBookId(fm: Record<string, any>): string | undefined {
+        const value = fm[this.settings.properties.bookId];
+        if (!this.settings.inference.enabled || value === undefined || value === null || value === "") {
+            return undefined;
+        }
+        return String(value).toLowerCase();
+    }
+
+    /**
+     * Groups the inferred files of a book by chapter number and stage index. When two files claim the
+     * same slot, the first one (by path) wins and the other is reported.
+     */
+    private getInferredChapters(
+        bookId: string | undefined,
+        dependencies: BookDependencies,
+        report: Reporter
+    ): Map<number, Map<number, TFile>> {
+        const chapters = new Map<number, Map<number, TFile>>();
+        if (bookId === undefined) return chapters;
+
+        const files = [...(this.inferredFiles.get(bookId)?.values() ?? [])]
+            .sort((a, b) => a.file.path.localeCompare(b.file.path));
+
+        for (const inferred of files) {
+            let stageFiles = chapters.get(inferred.chapterNumber);
+            if (!stageFiles) {
+                stageFiles = new Map();
+                chapters.set(inferred.chapterNumber, stageFiles);
+            }
+
+            const existing = stageFiles.get(inferred.stageIndex);
+            if (existing) {
+                report("duplicate-stage", inferred.file, `Named as chapter ${inferred.chapterNumber}, `
+                    + `stage ${inferred.stageIndex}, which "${existing.path}" already is.`);
+                continue;
+            }
+
+            stageFiles.set(inferred.stageIndex, inferred.file);
+            dependencies.files.add(inferred.file.path);
+        }
+
+        return chapters;
+    }
+
+    private addToSetMap(map: Map<string, Set<string>>, key: string, value: string) {
+        let set = map.get(key);
+        if (!set) {
+            set = new Set();
+            map.set(key, set);
+        }
+        set.add(value);
+    }
+
+    private removeFromSetMap(map: Map<string, Set<string>>, key: string, value: string) {
+        const set = map.get(key);
+        if (!set) return;
+
+        set.delete(value);
+        if (set.size === 0) {
+            map.delete(key);
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Helpers
+    // ─────────────────────────────────────────────
+
+    private isBookFile(file: TFile): boolean {
+        const keys = this.settings.properties;
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!fm?.[keys.bookTitle]) return false;
+        return Array.isArray(fm[keys.chapters]) || Array.isArray(fm[keys.parts]) || this.getBookId(fm) !== undefined;
+    }
+
+    /**
+     * The book's parts, or null when it has no `parts` list. Each part is an object with an optional
+     * `title` and a `chapters` list of links; anything else counts as an untitled part without chapters.
+     */
+    private getParts(fm: Record<string, any>): { title?: string, chapters: unknown[] }[] | null {
+        const parts: unknown = fm[this.settings.properties.parts];
+        if (!Array.isArray(parts)) return null;
+
+        return parts.map(part => {
+            const {title, chapters} = (typeof part === "object" && part !== null ? part : {}) as Record<string, unknown>;
+            return {
+                title: typeof title === "string" || typeof title === "number" ? String(title).trim() || undefined : undefined,
+                chapters: Array.isArray(chapters) ? chapters : [],
+            };
+        });
+    }
+
+    private getPositiveNumber(value: unknown): number | undefined {
+        const number = typeof value === "number" ? value : parseFloat(String(value));
+        return isFinite(number) && number > 0 ? number : undefined;
+    }
+
+    private getLinkText(link: string): string {
+        return link.replace(/^\[\[|]]$/g, "");
+    }
+
+    private getLinkBasename(link: string): string {
+        const linkpath = getLinkpath(this.getLinkText(link));
+        return linkpath.split("/").pop()!.replace(/\.md$/i, "").toLowerCase();
+    }
+
+    /**
+     * Numbers the chapters and labels them from the configured formats. Interludes are counted apart
+     * from the chapters, and unnumbered chapters not at all.
+     */
     private assignLabelsAndNumbers(book: BookEntry) {
+        const formats = this.settings.labels;
+        const restartInParts = formats.numbering === "per-part";
         let chapterCounter = 0;
+        let interludeCounter = 0;
+        let currentPart: PartEntry | undefined;
+
         for (const chapter of book.chapters) {
+            if (restartInParts && chapter.part !== currentPart) {
+                currentPart = chapter.part;
+                chapterCounter = 0;
+                interludeCounter = 0;
+            }
+
+            const {title} = chapter;
+            const fallback = (chapter.info ?? chapter.file).basename;
+
             if (chapter.kind === "prologue") {
-                chapter.chapterLabel = "Prologue";
+                chapter.chapterLabel = renderLabel(formats.prologueFormat, null, title, "Prologue");
             } else if (chapter.kind === "epilogue") {
-                chapter.chapterLabel = "Epilogue";
+                chapter.chapterLabel = renderLabel(formats.epilogueFormat, null, title, "Epilogue");
+            } else if (chapter.kind === "interlude") {
+                chapter.chapterLabel = renderLabel(formats.interludeFormat, ++interludeCounter, title, fallback);
+            } else if (!chapter.numbered) {
+                chapter.chapterLabel = renderLabel(formats.unnumberedFormat, null, title, fallback);
             } else {
-                chapterCounter++;
-                chapter.chapterNumber = chapterCounter;
-                chapter.chapterLabel = `Chapter ${chapterCounter}`;
+                chapter.chapterNumber = ++chapterCounter;
+                chapter.chapterLabel = renderLabel(formats.chapterFormat, chapter.chapterNumber, title, fallback);
             }
+
+            chapter.shortLabel = chapter.chapterNumber !== null
+                ? formatNumber(chapter.chapterNumber, getNumberStyle(formats.chapterFormat))
+                : chapter.chapterLabel;
         }
     }
 
-    private getChapterKind(file: TFile, pending: PendingBook): "prologue" | "epilogue" | "chapter" {
+    private getChapterKind(file: TFile, pending: PendingBook): ChapterKind {
         if (file === pending.prologueFile) return "prologue";
         if (file === pending.epilogueFile) return "epilogue";
         return "chapter";
     }
 
+    /**
+     * Targets the same stage of the neighbouring chapter, continuing into the neighbouring book of
+     * the series when enabled. When that chapter lacks the stage, the configured fallback decides
+     * whether to disable, skip further along, or settle for an earlier stage.
+     */
     private getAdjacentChapterTarget(
         chapter: ChapterEntry,
         stage: ChapterStage,
         direction: "previous" | "next"
     ): NavigationTarget {
-        const chapters = chapter.book.chapters;
+        const fallback = this.settings.navigation.adjacentFallback;
+
+        for (const targetChapter of this.walkChapters(chapter, direction)) {
+            const file = this.getStageFile(targetChapter, stage);
+            if (file) {
+                return {kind: "file", file, label: this.describeTarget(targetChapter, stage, chapter.book)};
+            }
+
+            if (fallback === "stage-order") {
+                return this.getEarlierStageTarget(targetChapter, stage, chapter.book);
+            }
+
+            if (fallback !== "skip") {
+                break;
+            }
+        }
+
+        return {kind: "disabled"};
+    }
+
+    /**
+     * Yields the chapters after (or before) the given one in reading order, moving on to the
+     * neighbouring books of its series when cross-book navigation is on.
+     */
+    private *walkChapters(chapter: ChapterEntry, direction: "previous" | "next"): Generator<ChapterEntry> {
         const delta = direction === "next" ? 1 : -1;
-        const targetIndex = chapter.index + delta;
+        const visited = new Set<BookEntry>();
 
-        if (targetIndex < 0 || targetIndex >= chapters.length) {
-            return {kind: "disabled"};
+        let book: BookEntry | undefined = chapter.book;
+        let i = chapter.index + delta;
+
+        while (book && !visited.has(book)) {
+            visited.add(book);
+            for (; i >= 0 && i < book.chapters.length; i += delta) {
+                yield book.chapters[i];
+            }
+
+            book = this.settings.navigation.crossBooks ? this.getAdjacentBook(book, direction) : undefined;
+            i = delta > 0 ? 0 : (book?.chapters.length ?? 0) - 1;
         }
+    }
 
-        const targetChapter = chapters[targetIndex];
-        const file = targetChapter[stage];
+    /**
+     * Targets the latest stage before the given one that the chapter has, ending with its chapter info
+     * file (e.g. draft → outline → info).
+     */
+    private getEarlierStageTarget(chapter: ChapterEntry, stage: ChapterStage, from: BookEntry): NavigationTarget {
+        const names = this.getStageDefinitions().map(d => d.name);
+        const position = names.indexOf(stage);
+        const candidates = [...names.slice(0, Math.max(0, position)).reverse(), "info"];
 
-        // If the target chapter doesn’t have that stage, disable
-        return file
-            ? {kind: "file", file}
-            : {kind: "disabled"};
+        for (const candidate of candidates) {
+            const file = this.getStageFile(chapter, candidate);
+            if (file) {
+                return {kind: "file", file, label: this.describeTarget(chapter, candidate, from)};
+            }
+        }
+
+        return {kind: "disabled"};
+    }
+
+    /**
+     * Names a target for tooltips, prefixed with its book's title when it lies outside the current book.
+     */
+    private describeTarget(chapter: ChapterEntry, stage: ChapterStage, from: BookEntry): string {
+        const definition = this.getStageDefinitions().find(d => d.name === stage);
+        const stageLabel = stage === "info" ? "Info" : definition?.label || stage;
+        const label = `${getFullChapterLabel(chapter)} · ${stageLabel}`;
+        return chapter.book === from ? label : `${chapter.book.title} · ${label}`;
+    }
+
+    /**
+     * Targets the same stage of the book's first or last chapter, in reading order. Disabled when the
+     * chapter already is that chapter, or it lacks the stage.
+     */
+    private getBoundaryChapterTarget(
+        chapter: ChapterEntry,
+        stage: ChapterStage,
+        boundary: "first" | "last"
+    ): NavigationTarget {
+        const chapters = chapter.book.chapters;
+        const targetChapter = boundary === "first" ? chapters[0] : chapters[chapters.length - 1];
+
+        if (!targetChapter || targetChapter === chapter) {
+            return {kind: "disabled"};
+        }
+
+        return this.getStageTarget(targetChapter, stage);
     }
 
     private getBookInfoTarget(bookEntry: BookEntry): NavigationTarget {
@@ -220,12 +1419,16 @@ export class NovelIndexer {
             : {kind: "disabled"};
     }
 
+    private getStageFile(chapter: ChapterEntry, stage: ChapterStage): TFile | undefined {
+        return stage === "info" ? chapter.info : chapter.stages.get(stage);
+    }
+
     private getStageTarget(
         chapter: ChapterEntry,
         stage: ChapterStage
     ): NavigationTarget {
-        const file = chapter[stage];
+        const file = this.getStageFile(chapter, stage);
         return file ? {kind: "file", file} : {kind: "disabled"};
     }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,103 @@
+// src/labels.ts
+import {ChapterEntry, PartEntry} from "./types";
+
+const ROMAN_NUMERALS: [number, string][] = [
+    [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+    [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+];
+
+const ONES = ["Zero", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten", "Eleven",
+    "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen"];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// {n}, {n:roman} or {n:words}
+const NUMBER_PLACEHOLDER = /\{n(?::(roman|words))?}/g;
+// A title placeholder along with the separator before it, dropped together when there is no title
+const TITLE_PLACEHOLDER = /[\s:·,.–—-]*\{title}/g;
+
+export type NumberStyle = "arabic" | "roman" | "words";
+
+/**
+ * Writes a positive whole number in Roman numerals; anything else is written as is.
+ */
+export function formatRoman(value: number): string {
+    if (!Number.isInteger(value) || value <= 0) return String(value);
+
+    let result = "";
+    for (const [amount, numeral] of ROMAN_NUMERALS) {
+        for (; value >= amount; value -= amount) {
+            result += numeral;
+        }
+    }
+    return result;
+}
+
+/**
+ * Spells out a whole number below a million in capitalised English words, e.g. "Twenty-One" or
+ * "One Hundred and Five"; anything else is written as is.
+ */
+export function formatWords(value: number): string {
+    if (!Number.isInteger(value) || value < 0 || value >= 1_000_000) return String(value);
+    if (value < 20) return ONES[value];
+    if (value < 100) return TENS[Math.floor(value / 10)] + (value % 10 ? `-${ONES[value % 10]}` : "");
+
+    const [unit, size] = value < 1000 ? ["Hundred", 100] : ["Thousand", 1000];
+    const rest = value % size;
+    const head = `${formatWords(Math.floor(value / size))} ${unit}`;
+    if (rest === 0) return head;
+    return rest < 100 ? `${head} and ${formatWords(rest)}` : `${head} ${formatWords(rest)}`;
+}
+
+export function formatNumber(value: number, style: NumberStyle): string {
+    switch (style) {
+        case "roman":
+            return formatRoman(value);
+        case "words":
+            return formatWords(value);
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * The style of the first number placeholder in a label format, for showing the number on its own.
+ */
+export function getNumberStyle(format: string): NumberStyle {
+    const match = new RegExp(NUMBER_PLACEHOLDER.source).exec(format);
+    return (match?.[1] as NumberStyle | undefined) ?? "arabic";
+}
+
+/**
+ * Fills in a label format: `{n}`, `{n:roman}` and `{n:words}` take the number, `{title}` the title.
+ * Without a title, `{title}` is dropped with the separator before it, so that "Ch. {n}: {title}"
+ * gives "Ch. 3". Falls back to the title, or `fallback`, when the format renders empty.
+ */
+export function renderLabel(
+    format: string,
+    number: number | null,
+    title: string | undefined,
+    fallback: string
+): string {
+    const label = format
+        .replace(NUMBER_PLACEHOLDER, (_, style: NumberStyle | undefined) =>
+            number === null ? "" : formatNumber(number, style ?? "arabic"))
+        .replace(TITLE_PLACEHOLDER, separator => title ? separator.replace("{title}", () => title) : "")
+        .trim();
+    return label || title || fallback;
+}
+
+/**
+ * A chapter's label with its part in front, e.g. "Part II · Chapter 3", for wherever a chapter is
+ * named apart from its part. Chapters outside any part keep their plain label.
+ */
+export function getFullChapterLabel(chapter: ChapterEntry): string {
+    return chapter.part ? `${chapter.part.label} · ${chapter.chapterLabel}` : chapter.chapterLabel;
+}
+
+/**
+ * A part's label and title together, e.g. "Part II: The Return", or just the label when the part
+ * has no title of its own.
+ */
+export function getPartHeading(part: PartEntry): string {
+    return part.title === part.label ? part.label : `${part.label}: ${part.title}`;
+}
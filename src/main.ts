@@ -1,4 +1,5 @@
-import {MarkdownView, Plugin, WorkspaceLeaf} from "obsidian";
+import {EditorView} from "@codemirror/view";
+import {debounce, MarkdownView, Notice, Plugin, TFile, WorkspaceLeaf} from "obsidian";
 
 import outlineIcon from "./icons/outline/list-tree.solid.svg";
 import draftIcon from "./icons/draft/pen-line.solid.svg";
@@ -8,19 +9,54 @@ import nextIcon from "./icons/next/forward-step.solid.svg";
 import chapterIcon from "./icons/chapter-info/section.solid.svg";
 import bookIcon from "./icons/book-info/book-section.solid.svg";
 import ellipsisIcon from "./icons/ellipsis/ellipsis.solid.svg";
+import previousBookIcon from "./icons/previous/chevron-left.solid.svg";
+import nextBookIcon from "./icons/next/chevron-right.solid.svg";
 
 import {logger, setLoggerName} from './logger';
+import {NovelCommands} from "./commands";
+import {NovelCompiler} from "./compiler";
+import {NovelFileCreator} from "./creator";
 import {NovelIndexer} from "./indexer";
+import {parseScenes} from "./scenes";
+import {mergeSettings, NovelNavigatorSettingTab} from "./settings";
+import {setChapterStatus} from "./status";
+import {ChapterStage, IndexDiagnostic, NovelNavigatorSettings, StageEntry} from "./types";
+import {WordCounter} from "./wordcount";
 
 import {BookToolbar} from "./toolbars/BookToolbar";
 import {ChapterToolbar} from "./toolbars/ChapterToolbar";
+import {CharacterToolbar} from "./toolbars/CharacterToolbar";
+import {LocationToolbar} from "./toolbars/LocationToolbar";
+import {HealthReportView, VIEW_TYPE_HEALTH_REPORT} from "./views/HealthReportView";
+import {OutlineView, VIEW_TYPE_OUTLINE} from "./views/OutlineView";
+import {getDefaultComparison, openStageDiff, StageDiffView, VIEW_TYPE_STAGE_DIFF} from "./views/StageDiffView";
+import {TimelineView, VIEW_TYPE_TIMELINE} from "./views/TimelineView";
+
+const STAGE_ICONS: Record<string, string> = {
+    draft: draftIcon,
+    final: finalIcon,
+    outline: outlineIcon,
+};
 
 export default class NovelNavigatorPlugin extends Plugin {
+    public settings!: NovelNavigatorSettings;
+
     private indexer!: NovelIndexer;
+    private commands!: NovelCommands;
+    private creator!: NovelFileCreator;
+    private compiler!: NovelCompiler;
+    private wordCounter!: WordCounter;
 
-    private handlers = new Map<WorkspaceLeaf, BookToolbar | ChapterToolbar>();
+    private handlers = new Map<WorkspaceLeaf, BookToolbar | ChapterToolbar | LocationToolbar | CharacterToolbar>();
     private toolbars = new Map<WorkspaceLeaf, HTMLElement>();
 
+    // The chapter and stage opened last; entries are replaced on re-index, so it is kept by path
+    private lastVisited: { path: string, stage: ChapterStage } | null = null;
+    // Unresolved links from before the current run of renames and deletes; null when none is pending
+    private unresolvedBefore: Map<string, IndexDiagnostic> | null = null;
+    // Whether an editor's text changed since the scene position was last refreshed
+    private scenesEdited = false;
+
     // ─────────────────────────────────────────────
     // Plugin lifecycle
     // ─────────────────────────────────────────────
@@ -29,17 +65,83 @@ export default class NovelNavigatorPlugin extends Plugin {
         setLoggerName(this.manifest.name);
         logger.info(`Loading plugin ${this.manifest.version} ...`);
 
-        this.indexer = new NovelIndexer(this.app);
+        await this.loadSettings();
+        this.addSettingTab(new NovelNavigatorSettingTab(this.app, this));
+
+        this.indexer = new NovelIndexer(this.app, this.settings);
+        this.wordCounter = new WordCounter(this.app, this.indexer);
+        this.registerEvent(this.indexer.on("index-changed", (changedPaths) => {
+            this.wordCounter.handleIndexChanged(changedPaths);
+            this.refreshLeaves(changedPaths);
+        }));
+        this.registerEvent(this.wordCounter.on("counts-changed", (changedPaths) => {
+            this.refreshLeaves(changedPaths);
+        }));
+
         await this.rebuildNovelIndex();
 
-        this.registerEvent(
-            this.app.metadataCache.on("resolved", () => {
-                void this.rebuildNovelIndex();
-                this.app.workspace.iterateAllLeaves((leaf) => {
-                    this.updateToolbarForLeaf(leaf);
-                });
-            })
-        );
+        // The metadata cache may still be indexing on startup, so rebuild once it has fully resolved.
+        // Everything after that is handled incrementally.
+        const resolvedRef = this.app.metadataCache.on("resolved", () => {
+            this.app.metadataCache.offref(resolvedRef);
+            void this.rebuildNovelIndex();
+        });
+        this.registerEvent(resolvedRef);
+
+        this.registerEvent(this.app.metadataCache.on("changed", (file, data) => {
+            this.indexer.handleFileChanged(file);
+            this.wordCounter.handleFileChanged(file, data);
+        }));
+
+        this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+            if (file instanceof TFile) {
+                if (this.lastVisited?.path === oldPath) {
+                    this.lastVisited = {...this.lastVisited, path: file.path};
+                }
+                this.handleVaultChange(() => this.indexer.handleFileRenamed(file, oldPath));
+                // The index reports the old path, while leaves showing the file already have the new one
+                this.refreshLeaves(new Set([file.path]));
+            }
+        }));
+
+        this.registerEvent(this.app.vault.on("delete", (file) => {
+            if (file instanceof TFile) {
+                if (this.lastVisited?.path === file.path) {
+                    this.lastVisited = null;
+                }
+                this.handleVaultChange(() => this.indexer.handleFileDeleted(file));
+            }
+        }));
+
+        this.creator = new NovelFileCreator(this.app, this.indexer, this.settings);
+
+        this.compiler = new NovelCompiler(this.app, this.indexer, this.settings, this.creator);
+        this.commands = new NovelCommands(this, this.settings, this.indexer, this.creator, this.compiler);
+        this.commands.register();
+
+        this.registerView(VIEW_TYPE_HEALTH_REPORT, (leaf) => new HealthReportView(leaf, this.indexer));
+        this.addCommand({
+            id: "open-health-report",
+            name: "Open index health report",
+            callback: () => void this.activateView(VIEW_TYPE_HEALTH_REPORT),
+        });
+
+        this.registerView(VIEW_TYPE_OUTLINE, (leaf) => new OutlineView(leaf, this.indexer, this.settings, STAGE_ICONS));
+        this.addCommand({
+            id: "open-outline",
+            name: "Open novel outline",
+            callback: () => void this.activateView(VIEW_TYPE_OUTLINE),
+        });
+        this.addRibbonIcon("list-tree", "Open novel outline", () => void this.activateView(VIEW_TYPE_OUTLINE));
+
+        this.registerView(VIEW_TYPE_TIMELINE, (leaf) => new TimelineView(leaf, this.indexer, this.settings));
+        this.addCommand({
+            id: "open-timeline",
+            name: "Open story timeline",
+            callback: () => void this.activateView(VIEW_TYPE_TIMELINE),
+        });
+
+        this.registerView(VIEW_TYPE_STAGE_DIFF, (leaf) => new StageDiffView(leaf, this.indexer));
 
         // Initial scan of existing leaves
         this.app.workspace.iterateAllLeaves((leaf) => {
@@ -47,6 +149,13 @@ export default class NovelNavigatorPlugin extends Plugin {
             this.updateToolbarForLeaf(leaf);
         });
 
+        this.registerEvent(this.app.workspace.on("file-open", (file) => {
+            const mode = file ? this.indexer.resolveToolbarModeForFile(file) : null;
+            if (mode?.kind === "chapter-stage") {
+                this.lastVisited = {path: mode.stage.chapter.file.path, stage: mode.stage.stage};
+            }
+        }));
+
         // Active leaf changes
         this.registerEvent(this.app.workspace.on("active-leaf-change", leaf => {
             if (leaf) {
@@ -55,6 +164,13 @@ export default class NovelNavigatorPlugin extends Plugin {
             }
         }));
 
+        // Scene positions follow edits and the cursor
+        this.registerEditorExtension(EditorView.updateListener.of(update => {
+            if (!update.docChanged && !update.selectionSet) return;
+            this.scenesEdited ||= update.docChanged;
+            this.refreshActiveScenes();
+        }));
+
         // View history / DOM replacement
         this.registerEvent(this.app.workspace.on("layout-change", () => {
             this.app.workspace.iterateAllLeaves((leaf) => {
@@ -80,6 +196,32 @@ export default class NovelNavigatorPlugin extends Plugin {
         logger.info(`Plugin unloaded`);
     }
 
+    // ─────────────────────────────────────────────
+    // Settings
+    // ─────────────────────────────────────────────
+
+    public async saveSettings() {
+        await this.saveData(this.settings);
+        this.requestSettingsReindex();
+    }
+
+    private async loadSettings() {
+        this.settings = mergeSettings(await this.loadData());
+    }
+
+    // Settings are edited keystroke by keystroke, so reindexing waits for a pause in typing.
+    private requestSettingsReindex = debounce(async () => {
+        await this.rebuildNovelIndex();
+    }, 500, true);
+
+    /**
+     * Adds commands for stages added in the settings. Called once the settings tab closes, as commands
+     * registered for a half-typed stage name would stay in the palette until the plugin reloads.
+     */
+    public registerStageCommands() {
+        this.commands.registerStageCommands();
+    }
+
     // ─────────────────────────────────────────────
     // Index Construction
     // ─────────────────────────────────────────────
@@ -94,6 +236,91 @@ export default class NovelNavigatorPlugin extends Plugin {
         // });
     }
 
+    /**
+     * Re-renders the toolbars of leaves showing one of the changed files, or of every leaf when the
+     * whole index was rebuilt.
+     */
+    private refreshLeaves(changedPaths: Set<string> | null) {
+        this.app.workspace.iterateAllLeaves((leaf) => {
+            const file = leaf.view instanceof MarkdownView ? leaf.view.file : null;
+            if (!file) return;
+
+            if (changedPaths === null || changedPaths.has(file.path)) {
+                this.updateToolbarForLeaf(leaf);
+            }
+        });
+    }
+
+    /**
+     * The stage entry of the chapter visited last, if it is still in the index.
+     */
+    private getLastVisitedStage(): StageEntry | null {
+        if (!this.lastVisited) return null;
+
+        const {path, stage} = this.lastVisited;
+        const chapter = this.indexer.getIndex().chapters.get(path);
+        const file = stage === "info" ? chapter?.info : chapter?.stages.get(stage);
+        return chapter && file ? {chapter, stage, file} : null;
+    }
+
+    // ─────────────────────────────────────────────
+    // Renames & Deletes
+    // ─────────────────────────────────────────────
+
+    /**
+     * Applies a rename or delete to the index, remembering which links were unresolved before the
+     * first of a run of them so that only the links they break are reported.
+     */
+    private handleVaultChange(apply: () => void) {
+        this.unresolvedBefore ??= this.getUnresolvedLinks();
+        apply();
+        this.reportUnresolvedLinks();
+    }
+
+    // Obsidian may rewrite links to a renamed file shortly after the rename, so links are checked once
+    // the vault has settled.
+    private reportUnresolvedLinks = debounce(() => {
+        const before = this.unresolvedBefore ?? new Map();
+        this.unresolvedBefore = null;
+
+        const broken = [...this.getUnresolvedLinks()].filter(([key]) => !before.has(key)).map(([, d]) => d);
+        if (broken.length === 0) return;
+
+        broken.forEach(d => logger.warn(`${d.file.path}: ${d.message}`));
+        const files = [...new Set(broken.map(d => d.file.basename))].join(", ");
+        new Notice(`${broken.length} link(s) in ${files} no longer resolve. `
+            + "See the index health report for details.", 10000);
+    }, 2000, true);
+
+    private getUnresolvedLinks(): Map<string, IndexDiagnostic> {
+        const links = new Map<string, IndexDiagnostic>();
+        for (const diagnostic of this.indexer.getDiagnostics()) {
+            if (diagnostic.kind === "unresolved-link") {
+                links.set(`${diagnostic.file.path}\n${diagnostic.message}`, diagnostic);
+            }
+        }
+        return links;
+    }
+
+    // ─────────────────────────────────────────────
+    // Views
+    // ─────────────────────────────────────────────
+
+    private async activateView(viewType: string) {
+        const {workspace} = this.app;
+
+        let leaf = workspace.getLeavesOfType(viewType)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+
+            leaf = rightLeaf;
+            await leaf.setViewState({type: viewType, active: true});
+        }
+
+        await workspace.revealLeaf(leaf);
+    }
+
     // ─────────────────────────────────────────────
     // Toolbar Injection
     // ─────────────────────────────────────────────
@@ -142,6 +369,52 @@ export default class NovelNavigatorPlugin extends Plugin {
     // UI Helpers
     // ─────────────────────────────────────────────
 
+    /**
+     * Updates the scene position in the active leaf's chapter toolbar, the one whose editor has the
+     * cursor. Its file is only parsed again when it was edited since.
+     */
+    private refreshActiveScenes = debounce(() => {
+        const handler = this.getActiveChapterToolbar();
+        handler?.updateScenes(this.scenesEdited);
+        this.scenesEdited = false;
+    }, 150, true);
+
+    private getActiveChapterToolbar(): ChapterToolbar | null {
+        const leaf = this.app.workspace.getActiveViewOfType(MarkdownView)?.leaf;
+        const handler = leaf ? this.handlers.get(leaf) : undefined;
+        return handler instanceof ChapterToolbar ? handler : null;
+    }
+
+    /**
+     * Opens a stage file of the active chapter, at the scene matching the one open in the active leaf.
+     */
+    public openStage(file: TFile) {
+        const handler = this.getActiveChapterToolbar();
+        if (handler) {
+            void handler.openStage(file);
+        } else {
+            void this.app.workspace.openLinkText(file.path, "", false);
+        }
+    }
+
+    /**
+     * Moves the cursor of a leaf in editing mode to the start of a line and scrolls it into view;
+     * in reading mode, only scrolls.
+     */
+    private scrollLeafToLine(leaf: WorkspaceLeaf, line: number) {
+        const view = leaf.view;
+        if (!(view instanceof MarkdownView)) return;
+
+        if (view.getMode() === "source") {
+            const pos = {line, ch: 0};
+            view.editor.setCursor(pos);
+            view.editor.scrollIntoView({from: pos, to: pos}, true);
+            view.editor.focus();
+        } else {
+            view.setEphemeralState({line});
+        }
+    }
+
     private updateToolbarForLeaf(leaf: WorkspaceLeaf) {
         const view = leaf.view;
         const file = view instanceof MarkdownView ? view.file : null;
@@ -168,7 +441,7 @@ export default class NovelNavigatorPlugin extends Plugin {
 
             case "book-info": {
                 toolbar.setAttribute("data-nn-type", "book-info");
-                toolbar.setAttribute("data-nn-mode", "truncate-middle");
+                toolbar.setAttribute("data-nn-mode", this.settings.bookToolbar.mode);
 
                 if (handler && !(handler instanceof BookToolbar)) {
                     handler.destroy();
@@ -176,7 +449,26 @@ export default class NovelNavigatorPlugin extends Plugin {
                 }
 
                 if (!handler) {
-                    handler = new BookToolbar(this.app, toolbar, {ellipsis: ellipsisIcon});
+                    handler = new BookToolbar(this.app, toolbar, {
+                        ellipsis: ellipsisIcon,
+                        previousBook: previousBookIcon,
+                        nextBook: nextBookIcon,
+                    }, {
+                        canAddChapter: (book, placement) => this.creator.canPlaceChapter(book, placement),
+                        addChapter: (book, placement) => {
+                            void this.creator.createChapter(book, placement).then(file => {
+                                if (file) void this.app.workspace.openLinkText(file.path, "", false);
+                            });
+                        },
+                        getAdjacentBook: (book, direction) => this.indexer.getAdjacentBook(book, direction),
+                        getChapterProgress: (chapter) => this.wordCounter.getChapterProgress(chapter),
+                        getBookProgress: (book) => this.wordCounter.getBookProgress(book),
+                        setStatus: (chapter, status) => void setChapterStatus(this.app, this.settings, chapter, status),
+                        getFocusChapter: (book) => {
+                            const chapter = this.getLastVisitedStage()?.chapter;
+                            return chapter?.book === book ? chapter : null;
+                        },
+                    });
                     this.handlers.set(leaf, handler);
                 }
 
@@ -197,11 +489,31 @@ export default class NovelNavigatorPlugin extends Plugin {
                     handler = new ChapterToolbar(this.app, toolbar, {
                         book: bookIcon,
                         chapter: chapterIcon,
-                        draft: draftIcon,
-                        final: finalIcon,
                         next: nextIcon,
-                        outline: outlineIcon,
-                        previous: previousIcon
+                        previous: previousIcon,
+                        stages: STAGE_ICONS
+                    }, {
+                        createStage: (chapter, definition) => {
+                            void this.creator.createStageFile(chapter, definition).then(file => {
+                                if (file) void this.app.workspace.openLinkText(file.path, "", false);
+                            });
+                        },
+                        getWordCount: (file) => this.wordCounter.getWordCount(file),
+                        getChapterProgress: (chapter) => this.wordCounter.getChapterProgress(chapter),
+                        canCompareStages: (chapter) =>
+                            !!getDefaultComparison(chapter, this.indexer.getStageDefinitions(), null),
+                        compareStages: (chapter, stage) => {
+                            const comparison = getDefaultComparison(chapter, this.indexer.getStageDefinitions(), stage);
+                            if (comparison) void openStageDiff(this.app, chapter, comparison.before, comparison.after);
+                        },
+                        getScenes: (file) => leaf.view instanceof MarkdownView && leaf.view.file === file
+                            ? parseScenes(leaf.view.getViewData())
+                            : [],
+                        readScenes: async (file) => parseScenes(await this.app.vault.cachedRead(file)),
+                        getCursorLine: () => leaf.view instanceof MarkdownView && leaf.view.getMode() === "source"
+                            ? leaf.view.editor.getCursor().line
+                            : null,
+                        scrollToLine: (line) => this.scrollLeafToLine(leaf, line),
                     });
 
                     this.handlers.set(leaf, handler);
@@ -211,6 +523,43 @@ export default class NovelNavigatorPlugin extends Plugin {
                 handler.update(stageEntry, this.indexer.getNavigationTargets(stageEntry), file);
                 return;
             }
+
+            case "character": {
+                toolbar.setAttribute("data-nn-type", "character");
+                toolbar.removeAttribute("data-nn-mode");
+
+                if (handler && !(handler instanceof CharacterToolbar)) {
+                    handler.destroy();
+                    handler = undefined;
+                }
+
+                if (!handler) {
+                    handler = new CharacterToolbar(this.app, toolbar, {next: nextIcon, previous: previousIcon});
+                    this.handlers.set(leaf, handler);
+                }
+
+                const from = this.getLastVisitedStage();
+                handler.update(mode.character, this.indexer.getAppearanceTargets(mode.character, from), from?.chapter ?? null);
+                return;
+            }
+
+            case "location": {
+                toolbar.setAttribute("data-nn-type", "location");
+                toolbar.removeAttribute("data-nn-mode");
+
+                if (handler && !(handler instanceof LocationToolbar)) {
+                    handler.destroy();
+                    handler = undefined;
+                }
+
+                if (!handler) {
+                    handler = new LocationToolbar(this.app, toolbar);
+                    this.handlers.set(leaf, handler);
+                }
+
+                handler.update(mode.location);
+                return;
+            }
         }
     }
 }
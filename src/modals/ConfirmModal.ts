@@ -0,0 +1,47 @@
+// src/modals/ConfirmModal.ts
+import {App, Modal, Setting} from "obsidian";
+
+export interface ConfirmOptions {
+    title: string;
+    message: string;
+    // Label of the confirming button
+    confirm: string;
+}
+
+/**
+ * Asks a yes/no question. Resolves to true only when the confirming button is pressed; closing the
+ * modal any other way counts as no.
+ */
+export function confirm(app: App, options: ConfirmOptions): Promise<boolean> {
+    return new Promise(resolve => new ConfirmModal(app, options, resolve).open());
+}
+
+class ConfirmModal extends Modal {
+    private confirmed = false;
+
+    constructor(app: App, private options: ConfirmOptions, private resolve: (confirmed: boolean) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        this.titleEl.setText(this.options.title);
+        this.contentEl.createEl("p", {text: this.options.message});
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(this.options.confirm)
+                .setWarning()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.confirmed);
+    }
+}
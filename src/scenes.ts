@@ -0,0 +1,133 @@
+// src/scenes.ts
+
+// A scene break on a line of its own: `***`, `---` or `___` (spaces allowed), or a lone `#`
+const SCENE_BREAK = /^[ \t]*(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,}|#)[ \t]*$/;
+
+const SCENE_HEADING = /^##[ \t]+(.*?)[ \t#]*$/;
+const FENCE = /^[ \t]*(```|~~~)/;
+// Longest excerpt shown for a scene without a heading
+const MAX_EXCERPT = 40;
+
+export interface Scene {
+    index: number;
+    // Zero-based line of the document where the scene starts: its heading, or its first line of text
+    line: number;
+    // The text of the `## ` heading that opens the scene, if any
+    heading?: string;
+    // The heading, or the start of the scene's first line
+    title: string;
+}
+
+/**
+ * Splits a stage file into scenes. A scene starts at a `## ` heading or at the first line of text after
+ * a scene break; frontmatter and fenced code are skipped, and breaks with nothing after them start no
+ * scene. Line numbers are those of the whole document, frontmatter included.
+ */
+export function parseScenes(text: string): Scene[] {
+    const lines = text.split(/\r?\n/);
+    const scenes: Scene[] = [];
+    let afterBreak = false;
+    let fence: string | null = null;
+
+    const start = (line: number, title: string, heading?: string) => {
+        scenes.push({index: scenes.length, line, heading, title});
+        afterBreak = false;
+    };
+
+    for (let i = getBodyStart(lines); i < lines.length; i++) {
+        const line = lines[i];
+        const fenceMatch = FENCE.exec(line);
+
+        if (fence) {
+            if (fenceMatch?.[1] === fence) fence = null;
+            continue;
+        }
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            if (scenes.length === 0 || afterBreak) start(i, excerpt(line));
+            continue;
+        }
+
+        const heading = SCENE_HEADING.exec(line);
+        if (heading) {
+            start(i, heading[1] || `Scene ${scenes.length + 1}`, heading[1]);
+        } else if (isSceneBreak(lines, i)) {
+            afterBreak = scenes.length > 0;
+        } else if (line.trim() && (scenes.length === 0 || afterBreak)) {
+            start(i, excerpt(line));
+        }
+    }
+    return scenes;
+}
+
+/**
+ * Whether line `i` is a scene break: `***`, `---` or `___` (spaces allowed), or a lone `#`. A `---`
+ * right under a line of text is not, as it makes that line a heading. The scene parser and the
+ * compiler both go by this.
+ */
+export function isSceneBreak(lines: string[], i: number): boolean {
+    return SCENE_BREAK.test(lines[i]) && !isSetextUnderline(lines, i);
+}
+
+/**
+ * The index of the scene containing a line, or -1 when there are no scenes. Lines before the first
+ * scene belong to it.
+ */
+export function findSceneAt(scenes: Scene[], line: number): number {
+    if (scenes.length === 0) return -1;
+
+    let index = 0;
+    while (index + 1 < scenes.length && scenes[index + 1].line <= line) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * The scene of another stage of the same chapter that corresponds to `from[index]`, or -1 when the
+ * other stage has no scenes. Scenes are matched by heading first, then by position: one to one when
+ * both stages have the same number of scenes, proportionally when scenes were split or merged.
+ */
+export function matchScene(from: Scene[], index: number, to: Scene[]): number {
+    if (to.length === 0) return -1;
+    if (index < 0 || index >= from.length) return 0;
+
+    const heading = normalizeHeading(from[index].heading);
+    if (heading) {
+        const matches = to.filter(scene => normalizeHeading(scene.heading) === heading);
+        if (matches.length > 0) {
+            // Repeated headings: take the one nearest the scene's position
+            return matches.reduce((best, scene) =>
+                Math.abs(scene.index - index) < Math.abs(best.index - index) ? scene : best).index;
+        }
+    }
+
+    if (from.length === to.length || from.length === 1) {
+        return Math.min(index, to.length - 1);
+    }
+    return Math.round(index * (to.length - 1) / (from.length - 1));
+}
+
+function getBodyStart(lines: string[]): number {
+    if (lines[0]?.trim() !== "---") return 0;
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line === "---" || line === "...") return i + 1;
+    }
+    return 0;
+}
+
+// `---` right under a line of text makes that line a heading rather than breaking the scene
+function isSetextUnderline(lines: string[], i: number): boolean {
+    return /^[ \t]*-+[ \t]*$/.test(lines[i]) && i > 0 && lines[i - 1].trim() !== "";
+}
+
+function normalizeHeading(heading: string | undefined): string {
+    return heading?.trim().toLowerCase().replace(/\s+/g, " ") ?? "";
+}
+
+function excerpt(line: string): string {
+    const text = line.trim().replace(/^(?:[#>*_-]+\s*)+/, "").replace(/\s+/g, " ");
+    return text.length > MAX_EXCERPT ? `${text.slice(0, MAX_EXCERPT - 1).trimEnd()}…` : text;
+}
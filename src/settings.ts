@@ -0,0 +1,564 @@
+// src/settings.ts
+import {App, PluginSettingTab, Setting} from "obsidian";
+import type NovelNavigatorPlugin from "./main";
+import {AdjacentFallback, BookToolbarMode, ChapterNumbering, NovelNavigatorSettings, StageDefinition} from "./types";
+
+export const DEFAULT_SETTINGS: NovelNavigatorSettings = {
+    properties: {
+        bookId: "book_id",
+        bookTitle: "book_title",
+        chapters: "chapters",
+        parts: "parts",
+        prologue: "prologue",
+        epilogue: "epilogue",
+        chapterDatetime: "chapter_datetime",
+        chapterFlashback: "chapter_flashback",
+        chapterKind: "chapter_kind",
+        chapterLocation: "chapter_location",
+        chapterNumbered: "chapter_numbered",
+        chapterPov: "chapter_pov",
+        chapterCharacters: "chapter_characters",
+        chapterRefer: "chapter_refer",
+        chapterStage: "chapter_stage",
+        chapterStatus: "chapter_status",
+        chapterTargetWords: "chapter_target_words",
+        chapterTitle: "chapter_title",
+        series: "series",
+        seriesOrder: "series_order",
+        promotedFrom: "promoted_from",
+        promotedAt: "promoted_at",
+        frozen: "frozen",
+    },
+    stages: [
+        {name: "outline", key: "chapter_outline", icon: "outline", label: "Outline"},
+        {name: "draft", key: "chapter_draft", icon: "draft", label: "Draft"},
+        {name: "final", key: "chapter_final", icon: "final", label: "Final"},
+    ],
+    inference: {
+        enabled: false,
+        pattern: "^(?<book>[A-Za-z]+)(?<chapter>\\d+)\\.(?<stage>\\d+)$",
+    },
+    newFiles: {
+        stagePathPattern: "{{chapter_folder}}/{{chapter_name}} - {{stage_label}}",
+        chapterPathPattern: "{{book_folder}}/{{book_title}} {{date}}",
+        chapterTemplate: "",
+        freezeOnPromote: false,
+    },
+    navigation: {
+        adjacentFallback: "disable",
+        crossBooks: true,
+    },
+    timeline: {
+        formats: [],
+    },
+    compile: {
+        stages: ["final", "draft"],
+        sceneSeparator: "* * *",
+        outputPath: "{{book_folder}}/{{book_title}} - Manuscript",
+    },
+    bookToolbar: {
+        mode: "truncate-middle",
+    },
+    labels: {
+        numbering: "continuous",
+        chapterFormat: "Chapter {n}",
+        unnumberedFormat: "{title}",
+        interludeFormat: "Interlude: {title}",
+        prologueFormat: "Prologue",
+        epilogueFormat: "Epilogue",
+    },
+};
+
+/**
+ * Merges persisted data over the defaults. Nested objects are merged one level deep so that
+ * properties added in later versions pick up their defaults.
+ */
+export function mergeSettings(data: Partial<NovelNavigatorSettings> | null): NovelNavigatorSettings {
+    const saved = data ?? {};
+    return {
+        ...DEFAULT_SETTINGS,
+        ...saved,
+        properties: {...DEFAULT_SETTINGS.properties, ...saved.properties},
+        inference: {...DEFAULT_SETTINGS.inference, ...saved.inference},
+        newFiles: {...DEFAULT_SETTINGS.newFiles, ...saved.newFiles},
+        navigation: {...DEFAULT_SETTINGS.navigation, ...saved.navigation},
+        timeline: {...DEFAULT_SETTINGS.timeline, ...saved.timeline},
+        compile: {...DEFAULT_SETTINGS.compile, ...saved.compile},
+        bookToolbar: {...DEFAULT_SETTINGS.bookToolbar, ...saved.bookToolbar},
+        labels: {...DEFAULT_SETTINGS.labels, ...saved.labels},
+        stages: (saved.stages ?? DEFAULT_SETTINGS.stages).map(stage => ({...stage})),
+    };
+}
+
+export class NovelNavigatorSettingTab extends PluginSettingTab {
+    constructor(app: App, private plugin: NovelNavigatorPlugin) {
+        super(app, plugin);
+    }
+
+    public hide(): void {
+        this.plugin.registerStageCommands();
+    }
+
+    public display(): void {
+        const {containerEl} = this;
+        containerEl.empty();
+
+        this.displayProperties(containerEl);
+        this.displayStages(containerEl);
+        this.displayChapterLabels(containerEl);
+        this.displayNavigation(containerEl);
+        this.displayBookToolbar(containerEl);
+        this.displayTimeline(containerEl);
+        this.displayInference(containerEl);
+        this.displayNewFiles(containerEl);
+        this.displayCompile(containerEl);
+    }
+
+    // ─────────────────────────────────────────────
+    // Frontmatter Properties
+    // ─────────────────────────────────────────────
+
+    private displayProperties(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Frontmatter properties")
+            .setDesc("The property names Novel Navigator reads from book and chapter info files.")
+            .setHeading();
+
+        const properties = this.plugin.settings.properties;
+        const rows: { key: keyof typeof properties, name: string, desc: string }[] = [
+            {key: "bookTitle", name: "Book title", desc: "Marks a note as a book info file."},
+            {key: "bookId", name: "Book ID", desc: "Identifies a book in file names when filename inference is on."},
+            {key: "chapters", name: "Chapters", desc: "List of chapter info links on the book info file."},
+            {key: "parts", name: "Parts", desc: "List of parts, each with a title and chapters list, used instead of the chapters list."},
+            {key: "prologue", name: "Prologue", desc: "Link to the prologue's chapter info file."},
+            {key: "epilogue", name: "Epilogue", desc: "Link to the epilogue's chapter info file."},
+            {key: "chapterDatetime", name: "Chapter date/time", desc: "In-story date and time of a chapter."},
+            {key: "chapterFlashback", name: "Chapter flashback", desc: "Marks a chapter that goes back in story time on purpose."},
+            {key: "chapterKind", name: "Chapter kind", desc: "Set to \"interlude\" on an interlude's chapter info file."},
+            {key: "chapterLocation", name: "Chapter location", desc: "In-story location of a chapter."},
+            {key: "chapterNumbered", name: "Chapter numbered", desc: "Set to false for a chapter that takes no number."},
+            {key: "chapterPov", name: "Chapter POV", desc: "Link to the chapter's point-of-view character."},
+            {key: "chapterCharacters", name: "Chapter characters", desc: "Links to the characters appearing in a chapter."},
+            {key: "chapterRefer", name: "Chapter reference", desc: "Link from a stage file back to its chapter info file."},
+            {key: "chapterStage", name: "Chapter stage", desc: "The stage a stage file belongs to, by name or label."},
+            {key: "chapterStatus", name: "Chapter status", desc: "Planned, outlining, drafting, revising or done; derived from the stage files when absent."},
+            {key: "chapterTargetWords", name: "Chapter target words", desc: "Target length of a chapter, in words."},
+            {key: "chapterTitle", name: "Chapter title", desc: "Title of a chapter, for labels that include it."},
+            {key: "series", name: "Series", desc: "Series name, or link to a series note, on a book info file."},
+            {key: "seriesOrder", name: "Series order", desc: "Position of a book within its series."},
+            {key: "promotedFrom", name: "Promoted from", desc: "Link, set on promotion, to the stage file a stage was copied from."},
+            {key: "promotedAt", name: "Promoted at", desc: "Date a stage was promoted into."},
+            {key: "frozen", name: "Frozen", desc: "Marks a stage file that promotion must not overwrite."},
+        ];
+
+        for (const row of rows) {
+            new Setting(containerEl)
+                .setName(row.name)
+                .setDesc(row.desc)
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.properties[row.key])
+                    .setValue(properties[row.key])
+                    .onChange(async (value) => {
+                        properties[row.key] = value.trim() || DEFAULT_SETTINGS.properties[row.key];
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Stages
+    // ─────────────────────────────────────────────
+
+    private displayStages(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Stages")
+            .setDesc("The ordered stages of a chapter. Each stage is linked from the chapter info file by its "
+                + "frontmatter key. Icons can be a bundled icon (outline, draft, final) or any Lucide icon id.")
+            .setHeading();
+
+        const stages = this.plugin.settings.stages;
+
+        stages.forEach((stage, i) => {
+            new Setting(containerEl)
+                .setClass("nn-setting-stage")
+                .addText(text => text
+                    .setPlaceholder("Name")
+                    .setValue(stage.name)
+                    .onChange(async (value) => {
+                        stage.name = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder("Frontmatter key")
+                    .setValue(stage.key)
+                    .onChange(async (value) => {
+                        stage.key = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder("Icon")
+                    .setValue(stage.icon)
+                    .onChange(async (value) => {
+                        stage.icon = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder("Label")
+                    .setValue(stage.label)
+                    .onChange(async (value) => {
+                        stage.label = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon("arrow-up")
+                    .setTooltip("Move up")
+                    .setDisabled(i === 0)
+                    .onClick(() => this.moveStage(i, -1)))
+                .addExtraButton(button => button
+                    .setIcon("arrow-down")
+                    .setTooltip("Move down")
+                    .setDisabled(i === stages.length - 1)
+                    .onClick(() => this.moveStage(i, 1)))
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Remove stage")
+                    .onClick(async () => {
+                        stages.splice(i, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText("Add stage")
+                .onClick(async () => {
+                    const stage: StageDefinition = {name: "", key: "", icon: "file-text", label: ""};
+                    stages.push(stage);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText("Reset to defaults")
+                .onClick(async () => {
+                    stages.splice(0, stages.length, ...DEFAULT_SETTINGS.stages.map(s => ({...s})));
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    // ─────────────────────────────────────────────
+    // Chapter Labels
+    // ─────────────────────────────────────────────
+
+    private displayChapterLabels(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Chapter labels")
+            .setDesc("Formats can use {n} for the number, {n:roman} or {n:words} to write it as \"IV\" or \"Four\", "
+                + "and {title} for the chapter title. Without a title, {title} is left out along with the "
+                + "separator before it.")
+            .setHeading();
+
+        const labels = this.plugin.settings.labels;
+        const rows: { key: Exclude<keyof typeof labels, "numbering">, name: string, desc: string }[] = [
+            {key: "chapterFormat", name: "Chapter", desc: "Numbered chapters, e.g. \"Ch. {n}: {title}\"."},
+            {key: "unnumberedFormat", name: "Unnumbered chapter", desc: "Chapters set `chapter_numbered: false`, which don't advance the count."},
+            {key: "interludeFormat", name: "Interlude", desc: "Chapters set `chapter_kind: interlude`; {n} counts the interludes."},
+            {key: "prologueFormat", name: "Prologue", desc: "The book's prologue."},
+            {key: "epilogueFormat", name: "Epilogue", desc: "The book's epilogue."},
+        ];
+
+        for (const row of rows) {
+            new Setting(containerEl)
+                .setName(row.name)
+                .setDesc(row.desc)
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.labels[row.key])
+                    .setValue(labels[row.key])
+                    .onChange(async (value) => {
+                        labels[row.key] = value.trim() || DEFAULT_SETTINGS.labels[row.key];
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName("Numbering")
+            .setDesc("In books divided into parts, number chapters through the whole book or start again at "
+                + "Chapter 1 in each part.")
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    "continuous": "Through the book",
+                    "per-part": "Restart in each part",
+                } satisfies Record<ChapterNumbering, string>)
+                .setValue(labels.numbering)
+                .onChange(async (value) => {
+                    labels.numbering = value as ChapterNumbering;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // ─────────────────────────────────────────────
+    // Navigation
+    // ─────────────────────────────────────────────
+
+    private displayNavigation(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Navigation")
+            .setHeading();
+
+        const navigation = this.plugin.settings.navigation;
+
+        new Setting(containerEl)
+            .setName("When the adjacent chapter lacks the stage")
+            .setDesc("What Previous and Next do when the neighbouring chapter has no file for the current stage. "
+                + "The button's tooltip always names where it goes.")
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    "disable": "Disable the button",
+                    "skip": "Skip to the nearest chapter with this stage",
+                    "stage-order": "Open an earlier stage of the adjacent chapter",
+                } satisfies Record<AdjacentFallback, string>)
+                .setValue(navigation.adjacentFallback)
+                .onChange(async (value) => {
+                    navigation.adjacentFallback = value as AdjacentFallback;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Continue across books in a series")
+            .setDesc("Next on the last chapter of a book opens the first chapter of the next book in its series, "
+                + "and Previous on the first chapter the last chapter of the previous book.")
+            .addToggle(toggle => toggle
+                .setValue(navigation.crossBooks)
+                .onChange(async (value) => {
+                    navigation.crossBooks = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // ─────────────────────────────────────────────
+    // Book Toolbar
+    // ─────────────────────────────────────────────
+
+    private displayBookToolbar(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Book toolbar")
+            .setHeading();
+
+        const bookToolbar = this.plugin.settings.bookToolbar;
+
+        new Setting(containerEl)
+            .setName("When the chapters don't fit")
+            .setDesc("Collapse chapters behind a menu in the middle or at the end of the toolbar, or show a window "
+                + "of chapters around the one visited last that scrolls with the mouse wheel or by dragging.")
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    "truncate-middle": "Collapse the middle",
+                    "truncate-end": "Collapse the end",
+                    "dynamic-scrubber": "Scroll through a window",
+                } satisfies Record<BookToolbarMode, string>)
+                .setValue(bookToolbar.mode)
+                .onChange(async (value) => {
+                    bookToolbar.mode = value as BookToolbarMode;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // ─────────────────────────────────────────────
+    // Timeline
+    // ─────────────────────────────────────────────
+
+    private displayTimeline(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Timeline")
+            .setDesc("Chapter dates such as 1815-06-18, 1815-06-18 14:30, 18 June 1815 or June 1815 are "
+                + "understood out of the box. Add formats for in-world calendars below.")
+            .setHeading();
+
+        const timeline = this.plugin.settings.timeline;
+
+        new Setting(containerEl)
+            .setName("Custom date formats")
+            .setDesc("One regular expression per line, with any of the named groups year, month, day, hour "
+                + "and minute. For example: ^Day (?<day>\\d+)(?:, (?<hour>\\d+):(?<minute>\\d+))?$")
+            .addTextArea(text => text
+                .setValue(timeline.formats.join("\n"))
+                .onChange(async (value) => {
+                    timeline.formats = value.split("\n").map(line => line.trim()).filter(line => line);
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // ─────────────────────────────────────────────
+    // Filename Inference
+    // ─────────────────────────────────────────────
+
+    private displayInference(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Filename inference")
+            .setDesc("Infer chapters and stages from file names such as A03.2 (Book A, Chapter 3, stage 2). "
+                + "Stage 0 is the chapter info file; 1 and up follow the stage order above. "
+                + "Links in frontmatter always take priority over inferred files.")
+            .setHeading();
+
+        const inference = this.plugin.settings.inference;
+
+        new Setting(containerEl)
+            .setName("Infer from file names")
+            .setDesc("Books opt in by declaring their book ID property.")
+            .addToggle(toggle => toggle
+                .setValue(inference.enabled)
+                .onChange(async (value) => {
+                    inference.enabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("File name pattern")
+            .setDesc("A regular expression matched against the file's basename, with the named groups "
+                + "book, chapter and (optionally) stage.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.inference.pattern)
+                .setValue(inference.pattern)
+                .onChange(async (value) => {
+                    inference.pattern = value.trim() || DEFAULT_SETTINGS.inference.pattern;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // ─────────────────────────────────────────────
+    // New Files
+    // ─────────────────────────────────────────────
+
+    private displayNewFiles(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("New files")
+            .setDesc("Chapters and missing stage files can be created from the toolbars or the command palette. Templates and "
+                + "paths can use {{book_title}}, {{book_folder}}, {{part_label}}, {{part_title}}, {{chapter_label}}, "
+                + "{{chapter_number}}, {{chapter_kind}}, {{chapter_datetime}}, {{chapter_location}}, "
+                + "{{chapter_name}}, {{chapter_folder}}, {{stage}}, {{stage_label}} and {{date}}.")
+            .setHeading();
+
+        const newFiles = this.plugin.settings.newFiles;
+
+        new Setting(containerEl)
+            .setName("Stage file path")
+            .setDesc("Where new stage files are created, without the .md extension.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.newFiles.stagePathPattern)
+                .setValue(newFiles.stagePathPattern)
+                .onChange(async (value) => {
+                    newFiles.stagePathPattern = value.trim() || DEFAULT_SETTINGS.newFiles.stagePathPattern;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Chapter info file path")
+            .setDesc("Where new chapter info files are created, without the .md extension. {{chapter_label}} and "
+                + "{{chapter_number}} are those the chapter gets when it is created: inserting or moving chapters "
+                + "later renumbers the labels but doesn't rename the files.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.newFiles.chapterPathPattern)
+                .setValue(newFiles.chapterPathPattern)
+                .onChange(async (value) => {
+                    newFiles.chapterPathPattern = value.trim() || DEFAULT_SETTINGS.newFiles.chapterPathPattern;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Chapter info template")
+            .setDesc("Path of the note a new chapter info file starts from. Leave empty for an empty file.")
+            .addText(text => text
+                .setPlaceholder("Templates/Chapter info.md")
+                .setValue(newFiles.chapterTemplate)
+                .onChange(async (value) => {
+                    newFiles.chapterTemplate = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Freeze promoted stages")
+            .setDesc("Promote to next stage marks the stage file it copied from as frozen. "
+                + "Promotion never overwrites a frozen stage file.")
+            .addToggle(toggle => toggle
+                .setValue(newFiles.freezeOnPromote)
+                .onChange(async (value) => {
+                    newFiles.freezeOnPromote = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        for (const stage of this.plugin.settings.stages) {
+            if (!stage.name) continue;
+
+            new Setting(containerEl)
+                .setName(`${stage.label || stage.name} template`)
+                .setDesc("Path of the note a new file of this stage starts from. Leave empty for an empty file.")
+                .addText(text => text
+                    .setPlaceholder("Templates/Chapter stage.md")
+                    .setValue(stage.template ?? "")
+                    .onChange(async (value) => {
+                        stage.template = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Compile
+    // ─────────────────────────────────────────────
+
+    private displayCompile(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName("Compile")
+            .setDesc("Compile book joins every chapter, prologue and epilogue into one manuscript note, "
+                + "without frontmatter or comments, and with a heading per chapter.")
+            .setHeading();
+
+        const compile = this.plugin.settings.compile;
+
+        new Setting(containerEl)
+            .setName("Stages")
+            .setDesc("Comma-separated stage names, in order of preference. A chapter without the first stage "
+                + "is compiled from the next one it has.")
+            .addText(text => text
+                .setPlaceholder("final, draft")
+                .setValue(compile.stages.join(", "))
+                .onChange(async (value) => {
+                    compile.stages = value.split(",").map(name => name.trim()).filter(name => name);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Scene separator")
+            .setDesc("Replaces scene break lines such as ***, --- or # in the chapters.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.compile.sceneSeparator)
+                .setValue(compile.sceneSeparator)
+                .onChange(async (value) => {
+                    compile.sceneSeparator = value.trim() || DEFAULT_SETTINGS.compile.sceneSeparator;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Manuscript path")
+            .setDesc("Can use {{book_title}}, {{book_folder}}, {{stage}} and {{date}}. "
+                + "Compiling again overwrites the manuscript.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.compile.outputPath)
+                .setValue(compile.outputPath)
+                .onChange(async (value) => {
+                    compile.outputPath = value.trim() || DEFAULT_SETTINGS.compile.outputPath;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private async moveStage(index: number, delta: number) {
+        const stages = this.plugin.settings.stages;
+        const target = index + delta;
+        if (target < 0 || target >= stages.length) return;
+
+        [stages[index], stages[target]] = [stages[target], stages[index]];
+        await this.plugin.saveSettings();
+        this.display();
+    }
+}
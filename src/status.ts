@@ -0,0 +1,60 @@
+// src/status.ts
+import {App, Notice} from "obsidian";
+import {getFullChapterLabel} from "./labels";
+import {logger} from "./logger";
+import {ChapterEntry, ChapterStatus, NovelNavigatorSettings} from "./types";
+
+// In workflow order
+export const CHAPTER_STATUSES: ChapterStatus[] = ["planned", "outlining", "drafting", "revising", "done"];
+
+export const STATUS_LABELS: Record<ChapterStatus, string> = {
+    planned: "Planned",
+    outlining: "Outlining",
+    drafting: "Drafting",
+    revising: "Revising",
+    done: "Done",
+};
+
+// Lucide icon ids
+export const STATUS_ICONS: Record<ChapterStatus, string> = {
+    planned: "circle-dashed",
+    outlining: "list-tree",
+    drafting: "pen-line",
+    revising: "eraser",
+    done: "circle-check",
+};
+
+export function parseChapterStatus(value: unknown): ChapterStatus | undefined {
+    const needle = typeof value === "string" ? value.trim().toLowerCase() : "";
+    return CHAPTER_STATUSES.find(status => status === needle);
+}
+
+/**
+ * Writes a chapter's status to its chapter info file, or removes it so that the status is derived
+ * from the stage files again.
+ */
+export async function setChapterStatus(
+    app: App,
+    settings: NovelNavigatorSettings,
+    chapter: ChapterEntry,
+    status: ChapterStatus | null
+): Promise<void> {
+    const info = chapter.info;
+    if (!info) {
+        new Notice(`${getFullChapterLabel(chapter)} has no chapter info file to store its status in.`);
+        return;
+    }
+
+    try {
+        await app.fileManager.processFrontMatter(info, (fm) => {
+            if (status) {
+                fm[settings.properties.chapterStatus] = status;
+            } else {
+                delete fm[settings.properties.chapterStatus];
+            }
+        });
+    } catch (e) {
+        logger.error(`Failed to set the status of "${info.path}".`, e);
+        new Notice(`Could not set the status of ${getFullChapterLabel(chapter)}.`);
+    }
+}
@@ -0,0 +1,110 @@
+// src/timeline.ts
+import {logger} from "./logger";
+import {StoryTime} from "./types";
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october",
+    "november", "december"];
+
+// Built-in formats, tried after the custom ones: ISO dates with optional time ("1815-06-18 14:30",
+// "1815-06", "1815"), and dates with English month names ("18 June 1815", "June 18, 1815 2:30 pm").
+const TIME = String.raw`(?:[ T,]+(?<hour>\d{1,2}):(?<minute>\d{2})(?::\d{2}(?:\.\d+)?)?\s*(?<meridiem>am|pm)?)?`;
+const BUILT_IN_FORMATS = [
+    String.raw`^(?<year>-?\d{1,6})(?:-(?<month>\d{1,2})(?:-(?<day>\d{1,2})${TIME})?)?$`,
+    String.raw`^(?<day>\d{1,2})(?:st|nd|rd|th)?\s+(?<monthName>[a-z]+)\.?,?\s+(?<year>-?\d{1,6})${TIME}$`,
+    String.raw`^(?<monthName>[a-z]+)\.?\s+(?<day>\d{1,2})(?:st|nd|rd|th)?,?\s+(?<year>-?\d{1,6})${TIME}$`,
+    String.raw`^(?<monthName>[a-z]+)\.?,?\s+(?<year>-?\d{1,6})$`,
+].map(source => new RegExp(source, "i"));
+
+const compiledFormats = new Map<string, RegExp | null>();
+
+/**
+ * Parses an in-story date and time. Custom formats are regular expressions with any of the named
+ * groups `year`, `month`, `day`, `hour` and `minute`, so that in-world calendars ("Day 12 of the
+ * siege") can be ordered too. Returns undefined when no format matches.
+ */
+export function parseStoryTime(value: unknown, formats: string[]): StoryTime | undefined {
+    if (value === undefined || value === null) return undefined;
+    const raw = String(value).trim();
+    if (!raw) return undefined;
+
+    const patterns = [...formats.map(getCustomFormat).filter((r): r is RegExp => !!r), ...BUILT_IN_FORMATS];
+    for (const pattern of patterns) {
+        const groups = pattern.exec(raw)?.groups;
+        const time = groups && toStoryTime(raw, groups);
+        if (time) return time;
+    }
+    return undefined;
+}
+
+/**
+ * Orders two times for sorting: by the components both of them have, and a less precise time before
+ * the more precise ones it contains, so "1815-06" comes before "1815-06-18". Times whose first
+ * component differs (a date and a year-less "Day 3") are ordered by that alone: from the largest
+ * component down, a year before a month before a day.
+ */
+export function compareStoryTimes(a: StoryTime, b: StoryTime): number {
+    if (a.start !== b.start) return a.start - b.start;
+    return compareSharedComponents(a, b) || a.parts.length - b.parts.length;
+}
+
+/**
+ * Whether `a` is set before `b` in the components both of them have. Unlike the sort order, "1815-06"
+ * is not before "1815-06-18", as it may be the same day.
+ */
+export function isBeforeStoryTime(a: StoryTime, b: StoryTime): boolean {
+    return compareSharedComponents(a, b) < 0;
+}
+
+function compareSharedComponents(a: StoryTime, b: StoryTime): number {
+    const from = Math.max(a.start, b.start);
+    const to = Math.min(a.start + a.parts.length, b.start + b.parts.length);
+
+    for (let i = from; i < to; i++) {
+        const difference = a.parts[i - a.start] - b.parts[i - b.start];
+        if (difference !== 0) return difference;
+    }
+    return 0;
+}
+
+function getCustomFormat(source: string): RegExp | null {
+    if (!compiledFormats.has(source)) {
+        let regex: RegExp | null = null;
+        try {
+            regex = new RegExp(source, "i");
+        } catch (e) {
+            logger.warn(`Invalid story time format "${source}"; it is ignored.`, e);
+        }
+        compiledFormats.set(source, regex);
+    }
+    return compiledFormats.get(source)!;
+}
+
+/**
+ * Collects the matched components from the largest down, stopping at the first one missing.
+ * Formats without a year (e.g. "Day 3, 14:00") start at whichever component they have.
+ */
+function toStoryTime(raw: string, groups: Record<string, string | undefined>): StoryTime | undefined {
+    const month = groups.monthName !== undefined
+        ? MONTHS.findIndex(name => name.startsWith(groups.monthName!.toLowerCase()) && groups.monthName!.length >= 3) + 1
+        : toNumber(groups.month);
+    if (month === 0) return undefined;
+
+    let hour = toNumber(groups.hour);
+    if (hour !== undefined && groups.meridiem) {
+        hour = hour % 12 + (groups.meridiem.toLowerCase() === "pm" ? 12 : 0);
+    }
+
+    const components = [toNumber(groups.year), month, toNumber(groups.day), hour, toNumber(groups.minute)];
+    const start = components.findIndex(c => c !== undefined);
+    if (start < 0) return undefined;
+
+    const end = components.indexOf(undefined, start);
+    const parts = components.slice(start, end < 0 ? undefined : end) as number[];
+    return {raw, start, parts};
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const number = parseInt(value, 10);
+    return isNaN(number) ? undefined : number;
+}
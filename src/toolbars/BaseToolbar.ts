@@ -1,5 +1,8 @@
 // src/toolbars/BaseToolbar.ts
-import {App} from "obsidian";
+import {App, Notice, TFile} from "obsidian";
+import {iconFromName, svgFromString} from "../icons";
+import {getFullChapterLabel} from "../labels";
+import {BookEntry, ChapterEntry} from "../types";
 
 export abstract class BaseToolbar {
     protected constructor(protected app: App) {
@@ -31,6 +34,51 @@ export abstract class BaseToolbar {
         return btn;
     }
 
+    /**
+     * Renders chapters from any number of books as numbered buttons, grouped under their book's title.
+     * Each button opens the chapter info file. Returns the buttons by chapter.
+     */
+    protected createChapterList(parent: HTMLElement, chapters: ChapterEntry[]): Map<ChapterEntry, HTMLButtonElement> {
+        const groups = new Map<BookEntry, ChapterEntry[]>();
+        for (const chapter of chapters) {
+            if (!groups.has(chapter.book)) groups.set(chapter.book, []);
+            groups.get(chapter.book)!.push(chapter);
+        }
+
+        const buttons = new Map<ChapterEntry, HTMLButtonElement>();
+        for (const [book, bookChapters] of groups) {
+            const group = parent.createDiv({cls: "nn-chapter-list__book"});
+            group.createSpan({cls: "nn-chapter-list__title", text: book.title});
+
+            for (const chapter of bookChapters) {
+                const btn = group.createEl("button", {
+                    cls: "clickable-icon nn-button-chapter",
+                    text: chapter.shortLabel,
+                    attr: {"aria-label": `${book.title} · ${getFullChapterLabel(chapter)}`},
+                });
+                btn.addEventListener("click", () => this.openFile(chapter.info ?? chapter.file));
+                buttons.set(chapter, btn);
+            }
+        }
+        return buttons;
+    }
+
+    /**
+     * Opens a file from a toolbar button. Buttons outlive the index they were built from, and opening a
+     * link to a file deleted since would create an empty note in its place, so that is reported instead.
+     * With a line, the file opens scrolled to it.
+     */
+    protected openFile(file: TFile | string, line?: number) {
+        const path = typeof file === "string" ? file : file.path;
+        const current = this.app.vault.getAbstractFileByPath(path);
+
+        if (!(current instanceof TFile) || (typeof file !== "string" && current !== file)) {
+            new Notice(`"${path}" no longer exists.`);
+            return;
+        }
+        void this.app.workspace.openLinkText(path, "", false, line === undefined ? undefined : {eState: {line}});
+    }
+
     protected getUsableWidth(el: HTMLElement): number {
         const style = window.getComputedStyle(el);
 
@@ -57,9 +105,11 @@ export abstract class BaseToolbar {
         return val === "1";
     }
 
+    protected iconFromName(name: string, bundled: Record<string, string>): SVGElement {
+        return iconFromName(name, bundled);
+    }
+
     protected svgFromString(svgText: string): SVGElement {
-        const template = document.createElement("template");
-        template.innerHTML = svgText.trim();
-        return template.content.firstElementChild as SVGElement;
+        return svgFromString(svgText);
     }
 }
\ No newline at end of file
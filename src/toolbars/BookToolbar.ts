@@ -1,17 +1,58 @@
 // src/toolbars/BookToolbar.ts
 import {App, Menu} from "obsidian";
 import {BaseToolbar} from "./BaseToolbar";
-import {BookEntry, ChapterEntry} from "../types";
+import {
+    calculateSqueeze,
+    calculateTruncateEnd,
+    calculateWindow,
+    findMiddleSplit,
+    getChapterButtonLabels,
+    getChapterSignature
+} from "./layout";
+import {getFullChapterLabel, getPartHeading} from "../labels";
+import {CHAPTER_STATUSES, STATUS_ICONS, STATUS_LABELS} from "../status";
+import {
+    BookEntry,
+    BookProgress,
+    BookToolbarMode,
+    ChapterEntry,
+    ChapterPlacement,
+    ChapterProgress,
+    ChapterStatus
+} from "../types";
+import {formatWordCount} from "../wordcount";
 
 export interface BookToolbarIcons {
     ellipsis: string;
+    previousBook: string;
+    nextBook: string;
 }
 
+export interface BookToolbarActions {
+    canAddChapter(book: BookEntry, placement: ChapterPlacement): boolean;
+    addChapter(book: BookEntry, placement: ChapterPlacement): void;
+    getAdjacentBook(book: BookEntry, direction: "previous" | "next"): BookEntry | undefined;
+    getChapterProgress(chapter: ChapterEntry): ChapterProgress;
+    getBookProgress(book: BookEntry): BookProgress;
+    // null clears the explicit status, so that it is derived from the stage files again
+    setStatus(chapter: ChapterEntry, status: ChapterStatus | null): void;
+    // The chapter the dynamic scrubber centres on, if it is in this book
+    getFocusChapter(book: BookEntry): ChapterEntry | null;
+}
+
+// Wheel distance, in pixels, that scrolls the dynamic scrubber by one chapter
+const WHEEL_STEP = 40;
+// Pointer travel, in pixels, before a press on the scrubber counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
 export class BookToolbar extends BaseToolbar {
     private static labelCache = new Map<string, number>();
 
     private overflowBtn!: HTMLButtonElement;
     private controls!: HTMLElement;
+    private bookActions!: HTMLElement;
+    private seriesActions: HTMLElement | null = null;
+    private bookWords!: HTMLElement;
     private observer!: ResizeObserver;
 
     private buttonElements: {
@@ -22,11 +63,20 @@ export class BookToolbar extends BaseToolbar {
 
     private currentBook: BookEntry | null = null;
     private lastSignature: string = "";
+    private layoutWidth = 0;
+
+    // Dynamic scrubber: the first chapter of the window (null to centre it on the focus), the chapter
+    // it was last centred on, and the scroll in progress
+    private windowStart: number | null = null;
+    private focusPath: string | null = null;
+    private wheelDelta = 0;
+    private isDragging = false;
 
     constructor(
         app: App,
         private container: HTMLElement,
-        private icons: BookToolbarIcons
+        private icons: BookToolbarIcons,
+        private actions: BookToolbarActions
     ) {
         super(app);
 
@@ -71,7 +121,17 @@ export class BookToolbar extends BaseToolbar {
             this.build(book);
         }
 
-        this.applyLayout(usableWidth);
+        // Recentre the scrubber whenever another chapter has been visited
+        const focus = this.actions.getFocusChapter(book);
+        if ((focus?.file.path ?? null) !== this.focusPath) {
+            this.focusPath = focus?.file.path ?? null;
+            this.windowStart = null;
+        }
+
+        this.applyStatus(book);
+        this.applyProgress(book);
+        this.applyFocus(book, focus);
+        this.applyLayout(Math.max(0, usableWidth - this.getBookActionsWidth()));
     }
 
     private build(book: BookEntry) {
@@ -81,30 +141,41 @@ export class BookToolbar extends BaseToolbar {
         this.container.innerHTML = ""; // kills old controls and their listeners
         this.container.dataset.nnType = "book-info";
 
-        const labels = this.getRequiredLabels(book);
+        const labels = getChapterButtonLabels(book.chapters);
         this.measureMissingLabels(labels);
 
         // logger.info("Current Label Cache: ", Object.fromEntries(BookToolbar.labelCache));
 
         this.buttonElements = [];
 
-        // Find the pixel-based center to place the overflow button
-        const totalWidth = labels.reduce((acc, l) => acc + this.getCachedWidth(l), 0);
-        const targetMid = totalWidth / 2;
-        let currentWidth = 0;
-        let splitIndex = labels.length;
-
-        for (let i = 0; i < labels.length; i++) {
-            currentWidth += this.getCachedWidth(labels[i]);
-            if (currentWidth >= targetMid) {
-                splitIndex = i;
-                break;
-            }
+        // Place the overflow button at the pixel-based center; it goes last when the end collapses, and
+        // the scrubber doesn't show it at all
+        const splitIndex = this.getMode() === "truncate-middle"
+            ? findMiddleSplit(labels.map(label => this.getCachedWidth(label)))
+            : labels.length;
+
+        // Previous book goes before the chapters, next book after them
+        const previousBook = this.actions.getAdjacentBook(book, "previous");
+        const nextBook = this.actions.getAdjacentBook(book, "next");
+        this.seriesActions = null;
+        if (previousBook || nextBook) {
+            this.seriesActions = this.container.createDiv({cls: "nn-book-actions"});
+            this.seriesActions.appendChild(this.createBookButton(previousBook, "previous"));
         }
 
         this.controls = this.container.createDiv({cls: "nn-controls"});
         this.controls.innerHTML = "";
         this.controls.addEventListener("click", this.handleControlsClick.bind(this));
+        this.controls.addEventListener("contextmenu", this.handleControlsContextMenu.bind(this));
+        this.controls.addEventListener("wheel", this.handleControlsWheel.bind(this), {passive: false});
+        this.controls.addEventListener("pointerdown", this.handleControlsPointerDown.bind(this));
+
+        this.bookActions = this.container.createDiv({cls: "nn-book-actions"});
+        this.bookWords = this.bookActions.createSpan({cls: "nn-book-words"});
+        if (this.seriesActions) {
+            this.bookActions.appendChild(this.createBookButton(nextBook, "next"));
+        }
+        this.bookActions.appendChild(this.createAddButton());
 
         // Create the buttons in order
         labels.forEach((label, i) => {
@@ -128,99 +199,188 @@ export class BookToolbar extends BaseToolbar {
         if (splitIndex === labels.length) {
             this.overflowBtn = this.createOverflowButton();
             this.controls.appendChild(this.overflowBtn);
+            this.setupMenu(this.overflowBtn);
         }
     }
 
-    private applyLayout(usableWidth: number) {
-        // logger.info("Applying Book Toolbar Layout...");
-
-        const labels = this.buttonElements.map(button => button.element.textContent || "");
-        const squeeze = this.calculateSqueeze(labels, usableWidth);
-
-        this.buttonElements.forEach((btn, i) => {
-            const isHidden = squeeze.showOverflow
-                && squeeze.hideStart !== null
-                && squeeze.hideEnd !== null
-                && i >= squeeze.hideStart
-                && i <= squeeze.hideEnd;
-            btn.element.classList.toggle("is-hidden", isHidden);
-        });
-
-        if (this.overflowBtn) {
-            this.overflowBtn.classList.toggle("is-hidden", !squeeze.showOverflow);
+    /**
+     * Marks each chapter button with its status. Derived statuses are marked as such, so that the CSS
+     * can tell them apart from ones set by hand.
+     */
+    private applyStatus(book: BookEntry) {
+        for (const {element, index} of this.buttonElements) {
+            const chapter = book.chapters[index];
+            if (!chapter) continue;
+
+            for (const status of CHAPTER_STATUSES) {
+                element.classList.toggle(`nn-status-${status}`, chapter.status === status);
+            }
+            element.toggleAttribute("data-status-derived", !chapter.hasExplicitStatus);
         }
     }
 
-    private calculateSqueeze(labels: string[], containerWidth: number): {
-        hideStart: number | null,
-        hideEnd: number | null,
-        showOverflow: boolean
-    } {
-        const buffer = 10; // 10px safety buffer
-        const ovrWidth = this.getCachedWidth("__overflow__");
+    /**
+     * Marks each chapter button with how far its most advanced stage is towards the chapter's target
+     * length, and shows the book's total. Counts change without the chapter list changing, so this
+     * runs on every refresh.
+     */
+    private applyProgress(book: BookEntry) {
+        for (const {element, index} of this.buttonElements) {
+            const chapter = book.chapters[index];
+            if (!chapter) continue;
+
+            const {words, target} = this.actions.getChapterProgress(chapter);
+            const ratio = target ? words / target : null;
+
+            element.setAttribute("aria-label", words > 0 || target
+                ? `${getFullChapterLabel(chapter)} · ${formatWordCount(words, target)}`
+                : getFullChapterLabel(chapter));
+
+            if (ratio === null) {
+                delete element.dataset.progress;
+                element.style.removeProperty("--nn-progress");
+                continue;
+            }
 
-        let leftIndices = labels.map((_, i) => i);
-        let rightIndices: number[] = [];
+            element.dataset.progress = ratio >= 1 ? "complete"
+                : ratio >= 0.5 ? "halfway"
+                    : ratio > 0 ? "started"
+                        : "none";
+            element.style.setProperty("--nn-progress", `${Math.min(100, Math.round(ratio * 100))}%`);
+        }
 
-        const totalNatural = labels.reduce((acc, l) => acc + this.getCachedWidth(l), 0);
+        const {words, target} = this.actions.getBookProgress(book);
+        this.bookWords.textContent = words > 0 ? this.formatShortCount(words) : "";
+        this.bookWords.setAttribute("aria-label", `${book.title}: ${formatWordCount(words, target)}`);
+    }
 
-        // Full fit check
-        if (totalNatural + buffer <= containerWidth) {
-            return {hideStart: null, hideEnd: null, showOverflow: false};
-        }
+    private formatShortCount(words: number): string {
+        return words >= 1000 ? `${(words / 1000).toFixed(words >= 10000 ? 0 : 1)}k` : String(words);
+    }
 
-        // Initial split
-        let currentRightWidth = 0;
-        while (currentRightWidth < totalNatural / 2 && leftIndices.length > 1) {
-            const idx = leftIndices.pop()!;
-            rightIndices.unshift(idx);
-            currentRightWidth += this.getCachedWidth(labels[idx]);
+    /**
+     * Marks the chapter the scrubber centres on, so that the current position stays visible while
+     * scrolling away from it.
+     */
+    private applyFocus(book: BookEntry, focus: ChapterEntry | null) {
+        for (const {element, index} of this.buttonElements) {
+            element.toggleAttribute("data-current", !!focus && book.chapters[index] === focus);
         }
+    }
 
-        // Squeeze loop
-        const getWidth = (indices: number[]) => indices.reduce((acc, i) => acc + this.getCachedWidth(labels[i]), 0);
-        while (getWidth(leftIndices) + getWidth(rightIndices) + ovrWidth + buffer > containerWidth) {
-            if (leftIndices.length === 0 && rightIndices.length === 0) {
-                break;
+    private applyLayout(usableWidth: number) {
+        // logger.info("Applying Book Toolbar Layout...");
+        this.layoutWidth = usableWidth;
+
+        const widths = this.buttonElements.map(button => button.width);
+        const overflowWidth = this.getCachedWidth("__overflow__");
+        const mode = this.getMode();
+
+        // Inclusive ranges of hidden chapter indices
+        let hidden: [number, number][] = [];
+        let showOverflow = false;
+
+        if (mode === "dynamic-scrubber") {
+            const focus = this.buttonElements.findIndex(b => b.element.hasAttribute("data-current"));
+            const {start, end} = calculateWindow(widths, usableWidth, this.windowStart, Math.max(0, focus));
+            this.windowStart = start;
+            hidden = [[0, start - 1], [end + 1, widths.length - 1]];
+            this.controls.classList.toggle("has-before", start > 0);
+            this.controls.classList.toggle("has-after", end < widths.length - 1);
+        } else {
+            const squeeze = mode === "truncate-end"
+                ? calculateTruncateEnd(widths, usableWidth, overflowWidth)
+                : calculateSqueeze(widths, usableWidth, overflowWidth);
+            if (squeeze.showOverflow && squeeze.hideStart !== null && squeeze.hideEnd !== null) {
+                hidden = [[squeeze.hideStart, squeeze.hideEnd]];
             }
+            showOverflow = squeeze.showOverflow;
+            this.controls.classList.remove("has-before", "has-after");
+        }
 
-            let pullFromLeft = false;
-            if (leftIndices.length > 0 && rightIndices.length === 0) {
-                pullFromLeft = true;
-            } else if (leftIndices.length === 0 && rightIndices.length > 0) {
-                pullFromLeft = false;
-            } else {
-                pullFromLeft = getWidth(leftIndices) >= getWidth(rightIndices);
-            }
+        this.buttonElements.forEach((btn, i) => {
+            const isHidden = hidden.some(([start, end]) => i >= start && i <= end);
+            btn.element.classList.toggle("is-hidden", isHidden);
+        });
 
-            if (pullFromLeft) {
-                leftIndices.pop();
-            } else {
-                rightIndices.shift();
-            }
+        if (this.overflowBtn) {
+            this.overflowBtn.classList.toggle("is-hidden", !showOverflow);
         }
+    }
 
-        // Determine the hidden range
-        // The hidden range is everything between the last left and the first right
-        const hideStart = leftIndices.length > 0 ? leftIndices[leftIndices.length - 1] + 1 : 0;
-        const hideEnd = rightIndices.length > 0 ? rightIndices[0] - 1 : labels.length - 1;
+    /**
+     * Moves the scrubber's window by a number of chapters, stopping at either end of the book.
+     */
+    private scrollWindow(steps: number) {
+        if (this.windowStart === null || steps === 0) return;
 
-        return {
-            hideStart: hideStart <= hideEnd ? hideStart : null,
-            hideEnd: hideStart <= hideEnd ? hideEnd : null,
-            showOverflow: true
-        };
+        const last = this.buttonElements.length - 1;
+        const visible = this.buttonElements.filter(b => !b.element.classList.contains("is-hidden")).length;
+        const start = Math.min(Math.max(0, this.windowStart + steps), Math.max(0, last - visible + 1));
+        if (start === this.windowStart) return;
+
+        this.windowStart = start;
+        this.applyLayout(this.layoutWidth);
+    }
+
+    private getMode(): BookToolbarMode {
+        return (this.container.dataset.nnMode as BookToolbarMode | undefined) ?? "truncate-middle";
     }
 
     private createChapterButton(chapter: ChapterEntry, label: string): HTMLButtonElement {
         const btn = document.createElement("button");
         btn.classList.add("clickable-icon", "nn-button-chapter");
-        btn.setAttribute("aria-label", chapter.chapterLabel);
+        btn.setAttribute("aria-label", getFullChapterLabel(chapter));
         btn.textContent = label;
         btn.setAttribute("data-path", chapter.file.path);
+
+        // The first chapter of each part after the first is marked with a divider
+        const {part} = chapter;
+        if (part && part.index > 0 && part.chapters[0] === chapter) {
+            btn.setAttribute("data-part-start", getPartHeading(part));
+        }
         return btn;
     }
 
+    private createAddButton(): HTMLButtonElement {
+        return this.createIconNavButton(this.iconFromName("plus", {}), "Add Chapter", () => {
+            // The book entry is replaced on every re-index, so look it up when clicked
+            const book = this.currentBook;
+            if (!book) return;
+
+            const menu = new Menu();
+            const items: { title: string, placement: ChapterPlacement }[] = [
+                {title: "Add chapter at end", placement: {kind: "end"}},
+                {title: "Add prologue", placement: {kind: "prologue"}},
+                {title: "Add epilogue", placement: {kind: "epilogue"}},
+            ];
+
+            for (const {title, placement} of items) {
+                if (!this.actions.canAddChapter(book, placement)) continue;
+                menu.addItem(item => item
+                    .setTitle(title)
+                    .onClick(() => this.actions.addChapter(book, placement)));
+            }
+
+            const rect = this.bookActions.getBoundingClientRect();
+            menu.showAtPosition({x: rect.left, y: rect.bottom});
+        });
+    }
+
+    /**
+     * A button opening the neighbouring book of the series, disabled at either end of it.
+     */
+    private createBookButton(book: BookEntry | undefined, direction: "previous" | "next"): HTMLButtonElement {
+        const icon = direction === "previous" ? this.icons.previousBook : this.icons.nextBook;
+        const label = book
+            ? `${direction === "previous" ? "Previous" : "Next"} book: ${book.title}`
+            : `No ${direction} book in ${this.currentBook?.series?.name ?? "the series"}`;
+
+        return this.createIconNavButton(this.svgFromString(icon), label, () => {
+            if (book) this.openFile(book.file);
+        }, !book);
+    }
+
     private createOverflowButton(): HTMLButtonElement {
         const btn = document.createElement("button");
         btn.classList.add("clickable-icon", "nn-button-overflow");
@@ -232,12 +392,27 @@ export class BookToolbar extends BaseToolbar {
 
     private getBookSignature(book: BookEntry): string {
         return [
+            this.getMode(),
             book.file.path,
+            this.actions.getAdjacentBook(book, "previous")?.file.path ?? "",
+            this.actions.getAdjacentBook(book, "next")?.file.path ?? "",
             book.chapters.length,
-            ...book.chapters.map(c => c.file.path)
+            getChapterSignature(book.chapters)
         ].join('|');
     }
 
+    /**
+     * The width taken by the book and series action buttons, including the gaps that separate them
+     * from the chapter buttons.
+     */
+    private getBookActionsWidth(): number {
+        const gap = parseFloat(window.getComputedStyle(this.container).columnGap) || 0;
+
+        return [this.bookActions, this.seriesActions]
+            .filter((el): el is HTMLElement => !!el)
+            .reduce((width, el) => width + el.getBoundingClientRect().width + gap, 0);
+    }
+
     private getCachedWidth(label: string): number {
         const width = BookToolbar.labelCache.get(label);
         if (width === undefined) {
@@ -247,22 +422,10 @@ export class BookToolbar extends BaseToolbar {
         return width;
     }
 
-    private getRequiredLabels(book: BookEntry): string[] {
-        const labels: string[] = [];
-        let chapterCounter = 0;
-
-        book.chapters.forEach(chapter => {
-            if (chapter.kind === "chapter") {
-                labels.push(String(++chapterCounter));
-            } else {
-                labels.push(chapter.chapterLabel);
-            }
-        });
-
-        return labels;
-    }
-
     private handleControlsClick(e: MouseEvent) {
+        // A drag on the scrubber ends with a click on whichever chapter it was released over
+        if (this.isDragging) return;
+
         // 1. Find the clicked element (or its parent button)
         const target = (e.target as HTMLElement).closest(".nn-button-chapter, .nn-overflow-button");
 
@@ -276,10 +439,95 @@ export class BookToolbar extends BaseToolbar {
         // 3. Otherwise, it's a chapter button
         const path = target.getAttribute("data-path");
         if (path) {
-            void this.app.workspace.openLinkText(path, "", false);
+            this.openFile(path);
         }
     }
 
+    private handleControlsWheel(e: WheelEvent) {
+        if (this.getMode() !== "dynamic-scrubber") return;
+
+        const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+        if (delta === 0) return;
+        e.preventDefault();
+
+        // Trackpads send many small deltas, mouse wheels a few large ones
+        this.wheelDelta += e.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? delta : Math.sign(delta) * WHEEL_STEP;
+        const steps = Math.trunc(this.wheelDelta / WHEEL_STEP);
+        this.wheelDelta -= steps * WHEEL_STEP;
+        this.scrollWindow(steps);
+    }
+
+    /**
+     * Scrubs through the chapters while the pointer is dragged across them: one chapter per average
+     * button width, against the direction of the drag, like scrolling a list.
+     */
+    private handleControlsPointerDown(e: PointerEvent) {
+        if (this.getMode() !== "dynamic-scrubber" || e.button !== 0 || this.windowStart === null) return;
+
+        const visible = this.buttonElements.filter(b => !b.element.classList.contains("is-hidden"));
+        const step = visible.reduce((acc, b) => acc + b.width, 0) / Math.max(1, visible.length);
+        const startX = e.clientX;
+        const startWindow = this.windowStart;
+
+        const onMove = (event: PointerEvent) => {
+            const dx = event.clientX - startX;
+            if (!this.isDragging && Math.abs(dx) < DRAG_THRESHOLD) return;
+
+            this.isDragging = true;
+            this.controls.classList.add("is-scrubbing");
+            this.scrollWindow(startWindow - Math.round(dx / step) - this.windowStart!);
+        };
+        const onUp = () => {
+            window.removeEventListener("pointermove", onMove);
+            window.removeEventListener("pointerup", onUp);
+            this.controls.classList.remove("is-scrubbing");
+            // Let the click that ends the drag see it first
+            window.setTimeout(() => this.isDragging = false);
+        };
+
+        window.addEventListener("pointermove", onMove);
+        window.addEventListener("pointerup", onUp);
+    }
+
+    private handleControlsContextMenu(e: MouseEvent) {
+        const target = (e.target as HTMLElement).closest(".nn-button-chapter");
+        const path = target?.getAttribute("data-path");
+        const chapter = this.currentBook?.chapters.find(c => c.file.path === path);
+        if (!chapter) return;
+
+        const items: { title: string, placement: ChapterPlacement }[] = [
+            {title: "Insert chapter before", placement: {kind: "before", chapter}},
+            {title: "Insert chapter after", placement: {kind: "after", chapter}},
+        ];
+
+        const menu = new Menu();
+        for (const {title, placement} of items) {
+            if (!this.actions.canAddChapter(chapter.book, placement)) continue;
+            menu.addItem(item => item
+                .setTitle(title)
+                .onClick(() => this.actions.addChapter(chapter.book, placement)));
+        }
+
+        if (chapter.info) {
+            menu.addSeparator();
+            for (const status of CHAPTER_STATUSES) {
+                menu.addItem(item => item
+                    .setTitle(STATUS_LABELS[status])
+                    .setIcon(STATUS_ICONS[status])
+                    .setChecked(chapter.hasExplicitStatus && chapter.status === status)
+                    .onClick(() => this.actions.setStatus(chapter, status)));
+            }
+            if (chapter.hasExplicitStatus) {
+                menu.addItem(item => item
+                    .setTitle("Derive status from stages")
+                    .onClick(() => this.actions.setStatus(chapter, null)));
+            }
+        }
+
+        e.preventDefault();
+        menu.showAtMouseEvent(e);
+    }
+
     private measureMissingLabels(labels: string[]) {
         const missing = labels.filter(label => !BookToolbar.labelCache.has(label));
         const missingOverflow = !BookToolbar.labelCache.has("__overflow__");
@@ -331,20 +579,34 @@ export class BookToolbar extends BaseToolbar {
         button.addEventListener("click", (e) => {
             const menu = new Menu();
 
-            const hiddenElements = this.buttonElements
-                .map(b => b.element)
-                .filter(el => el.classList.contains("is-hidden"));
+            const hiddenButtons = this.buttonElements
+                .filter(b => b.element.classList.contains("is-hidden"));
 
-            if (hiddenElements.length === 0) {
+            if (hiddenButtons.length === 0) {
                 return;
             }
 
-            hiddenElements.forEach(btn => {
+            // Hidden chapters are listed in sections by part, headed with the part's title
+            let section: string | null | undefined;
+            hiddenButtons.forEach(({element: btn, index}) => {
+                const chapter = this.currentBook?.chapters[index];
+                const title = btn.getAttribute("aria-label") || btn.textContent || "";
+
+                const heading = chapter?.part ? getPartHeading(chapter.part) : null;
+                if (heading !== section) {
+                    if (section !== undefined) menu.addSeparator();
+                    if (heading) menu.addItem(item => item.setTitle(heading).setIsLabel(true));
+                    section = heading;
+                }
+
                 menu.addItem(item => {
-                    item.setTitle(btn.getAttribute("aria-label") || btn.textContent || "")
+                    item.setTitle(chapter ? `${title} · ${STATUS_LABELS[chapter.status]}` : title)
                         .onClick(() => {
                             btn.click();
                         });
+                    if (chapter) {
+                        item.setIcon(STATUS_ICONS[chapter.status]);
+                    }
                 });
             });
             menu.showAtMouseEvent(e);
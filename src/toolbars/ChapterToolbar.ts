@@ -1,23 +1,58 @@
 // src/toolbars/ChapterToolbar.ts
-import {App, TFile} from "obsidian";
+import {App, Menu, TFile} from "obsidian";
 import {BaseToolbar} from "./BaseToolbar";
-import {ChapterEntry, ChapterNavigationTargets, StageEntry} from "../types";
+import {getFullChapterLabel} from "../labels";
+import {findSceneAt, matchScene, Scene} from "../scenes";
+import {
+    ChapterEntry,
+    ChapterNavigationTargets,
+    ChapterProgress,
+    LocationEntry,
+    NavigationTarget,
+    StageDefinition,
+    StageEntry
+} from "../types";
+import {formatWordCount} from "../wordcount";
+
+export interface ChapterToolbarActions {
+    createStage(chapter: ChapterEntry, definition: StageDefinition): void;
+    getWordCount(file: TFile): number | undefined;
+    getChapterProgress(chapter: ChapterEntry): ChapterProgress;
+    canCompareStages(chapter: ChapterEntry): boolean;
+    compareStages(chapter: ChapterEntry, stage: string): void;
+
+    // Scenes of the file open in the toolbar's leaf, as currently edited
+    getScenes(file: TFile): Scene[];
+    // Scenes of another file, as saved
+    readScenes(file: TFile): Promise<Scene[]>;
+    // The line of the cursor in the toolbar's leaf, or null when it doesn't show one (reading mode)
+    getCursorLine(): number | null;
+    scrollToLine(line: number): void;
+}
 
 interface ChapterToolbarIcons {
     book: string;
     chapter: string;
-    draft: string;
-    final: string;
     next: string;
-    outline: string;
     previous: string;
+
+    // Bundled stage icons, looked up by the icon name of a stage definition
+    stages: Record<string, string>;
 }
 
 export class ChapterToolbar extends BaseToolbar {
+    private file: TFile | null = null;
+    private scenes: Scene[] = [];
+    private sceneIndex = 0;
+    private sceneControls: HTMLDivElement | null = null;
+    // The scene position the scene controls show, e.g. "2/5", so they are only redrawn when it changes
+    private renderedScenes: string | null = null;
+
     constructor(
         app: App,
         private container: HTMLElement,
-        private icons: ChapterToolbarIcons
+        private icons: ChapterToolbarIcons,
+        private actions: ChapterToolbarActions
     ) {
         super(app);
     }
@@ -26,6 +61,11 @@ export class ChapterToolbar extends BaseToolbar {
     }
 
     public update(stageEntry: StageEntry, nav: ChapterNavigationTargets, file: TFile) {
+        if (file !== this.file) {
+            this.file = file;
+            this.sceneIndex = 0;
+        }
+
         this.container.className = "nn-toolbar";
         this.container.innerHTML = "";
         const {chapter, stage} = stageEntry;
@@ -42,23 +82,45 @@ export class ChapterToolbar extends BaseToolbar {
             const stageControls = document.createElement("div");
             stageControls.className = "nn-controls__stage";
 
-            const navItems = [
-                {svg: this.icons.outline, label: "Open Outline", target: nav.outline},
-                {svg: this.icons.draft, label: "Open Draft", target: nav.draft},
-                {svg: this.icons.final, label: "Open Final", target: nav.final},
-            ];
+            const navItems = nav.stages.map(({definition, target}) => ({
+                definition,
+                icon: definition.icon,
+                label: `Open ${definition.label || definition.name}`,
+                target,
+            }));
 
             navItems.forEach(item => {
-                const svg = this.svgFromString(item.svg);
+                const svg = this.iconFromName(item.icon, this.icons.stages);
+
+                // Missing stages can be created, as long as there is a chapter info file to link them from
+                if (item.target.kind === "disabled" && chapter.info) {
+                    const label = `Create ${item.definition.label || item.definition.name}`;
+                    const btn = this.createIconNavButton(svg, label, () => {
+                        this.actions.createStage(chapter, item.definition);
+                    });
+                    btn.dataset.missing = "";
+                    stageControls.append(btn);
+                    return;
+                }
+
                 const disabled = item.target.kind === "disabled";
                 const active = item.target.kind === "file" && file === item.target.file;
 
                 stageControls.append(this.createIconNavButton(svg, item.label, () => {
                     if (item.target.kind === "file") {
-                        void this.app.workspace.openLinkText(item.target.file.path, "", false);
+                        void this.openStage(item.target.file);
                     }
                 }, disabled, active));
             });
+
+            if (this.actions.canCompareStages(chapter)) {
+                const svg = this.iconFromName("diff", this.icons.stages);
+                const btn = this.createIconNavButton(svg, "Compare stages", () => {
+                    this.actions.compareStages(chapter, stage);
+                });
+                btn.addClass("nn-button-compare");
+                stageControls.append(btn);
+            }
             controls.append(stageControls);
         }
 
@@ -68,19 +130,19 @@ export class ChapterToolbar extends BaseToolbar {
         chapterControls.append(
             this.createIconNavButton(
                 this.svgFromString(this.icons.previous),
-                "Previous Chapter",
+                this.describeNavigation("Previous Chapter", nav.previous),
                 () => {
                     if (nav.previous.kind === "file") {
-                        void this.app.workspace.openLinkText(nav.previous.file.path, "", false);
+                        this.openFile(nav.previous.file);
                     }
                 },
                 nav.previous.kind === "disabled"),
             this.createIconNavButton(
                 this.svgFromString(this.icons.next),
-                "Next Chapter",
+                this.describeNavigation("Next Chapter", nav.next),
                 () => {
                     if (nav.next.kind === "file") {
-                        void this.app.workspace.openLinkText(nav.next.file.path, "", false);
+                        this.openFile(nav.next.file);
                     }
                 },
                 nav.next.kind === "disabled")
@@ -88,8 +150,98 @@ export class ChapterToolbar extends BaseToolbar {
 
         controls.append(chapterControls);
 
+        this.sceneControls = document.createElement("div");
+        this.sceneControls.className = "nn-controls__scene";
+        controls.append(this.sceneControls);
+        this.renderedScenes = null;
+        this.updateScenes(true);
+
         // Metadata
-        this.container.append(controls, this.createMetadata(chapter));
+        this.container.append(controls, this.createMetadata(stageEntry));
+    }
+
+    /**
+     * Finds the scene the cursor is in, and redraws the scene controls when it or the number of scenes
+     * changed. The open file is only parsed again with `reparse`, after it was edited.
+     */
+    public updateScenes(reparse: boolean) {
+        if (!this.file || !this.sceneControls) return;
+
+        if (reparse) {
+            this.scenes = this.actions.getScenes(this.file);
+        }
+        const line = this.actions.getCursorLine();
+        if (line !== null) {
+            this.sceneIndex = findSceneAt(this.scenes, line);
+        }
+        this.sceneIndex = Math.max(0, Math.min(this.sceneIndex, this.scenes.length - 1));
+
+        const position = `${this.sceneIndex + 1}/${this.scenes.length}`;
+        if (position === this.renderedScenes) return;
+        this.renderedScenes = position;
+
+        // A file without scene breaks is a single scene, which needs no navigation
+        if (this.scenes.length < 2) {
+            this.sceneControls.replaceChildren();
+            return;
+        }
+
+        const index = this.sceneIndex;
+        const selector = document.createElement("button");
+        selector.className = "clickable-icon nn-button-scene";
+        selector.textContent = position;
+        selector.setAttribute("aria-label", `Scene ${index + 1} of ${this.scenes.length}`);
+        selector.addEventListener("click", (e) => this.showSceneMenu(e));
+
+        this.sceneControls.replaceChildren(
+            this.createIconNavButton(
+                this.iconFromName("chevron-up", {}),
+                "Previous Scene",
+                () => this.goToScene(index - 1),
+                index === 0),
+            selector,
+            this.createIconNavButton(
+                this.iconFromName("chevron-down", {}),
+                "Next Scene",
+                () => this.goToScene(index + 1),
+                index === this.scenes.length - 1)
+        );
+    }
+
+    private showSceneMenu(e: MouseEvent) {
+        const menu = new Menu();
+        this.scenes.forEach(scene => {
+            menu.addItem(item => item
+                .setTitle(`${scene.index + 1}. ${scene.title}`)
+                .setChecked(scene.index === this.sceneIndex)
+                .onClick(() => this.goToScene(scene.index)));
+        });
+        menu.showAtMouseEvent(e);
+    }
+
+    private goToScene(index: number) {
+        const scene = this.scenes[index];
+        if (!scene) return;
+
+        this.sceneIndex = index;
+        this.actions.scrollToLine(scene.line);
+        this.updateScenes(false);
+    }
+
+    /**
+     * Opens another stage of the chapter at the scene matching the one open here, or at the top when
+     * either file has no scenes. Used by the stage buttons and the "Open <stage>" commands.
+     */
+    public async openStage(target: TFile) {
+        this.updateScenes(true);
+
+        let line: number | undefined;
+        if (this.scenes.length > 0) {
+            const targetScenes = await this.actions.readScenes(target);
+            const match = matchScene(this.scenes, this.sceneIndex, targetScenes);
+            line = match > 0 ? targetScenes[match].line : undefined;
+        }
+        this.openFile(target, line);
     }
 
     private createInfoButton(currentStage: string, nav: any): HTMLButtonElement {
@@ -104,30 +256,49 @@ export class ChapterToolbar extends BaseToolbar {
             label,
             () => {
                 if (target.kind === "file") {
-                    void this.app.workspace.openLinkText(target.file.path, "", false);
+                    this.openFile(target.file);
                 }
             },
             target.kind === "disabled"
         );
     }
 
-    private createMetadata(chapter: ChapterEntry): HTMLDivElement {
+    private describeNavigation(label: string, target: NavigationTarget): string {
+        return target.kind === "file" && target.label ? `${label}: ${target.label}` : label;
+    }
+
+    private createMetadata(stageEntry: StageEntry): HTMLDivElement {
+        const {chapter} = stageEntry;
         const metaNodes: HTMLElement[] = [];
 
         // metaNodes.push(this.makeSpan("nn-meta__segment nn-meta__segment--book", chapter.book.title));
 
-        const label = chapter.chapterLabel || "Unknown Chapter";
+        const label = getFullChapterLabel(chapter) || "Unknown Chapter";
         const chapterPill = this.createSpan("nn-meta__segment nn-meta__segment--chapter",
             this.createSpan("nn-meta__segment--chapter-label", label) // Inner span for CSS styling
         );
         metaNodes.push(chapterPill);
 
+        if (chapter.pov) {
+            metaNodes.push(this.createPovBadge(chapter));
+        }
+
+        const words = this.createWordCount(stageEntry);
+        if (words) {
+            metaNodes.push(words);
+        }
+
         if (this.hasValue(chapter.datetime)) {
             metaNodes.push(this.createSpan("nn-meta__segment nn-meta__segment--datetime", chapter.datetime));
         }
 
-        if (this.hasValue(chapter.location)) {
-            metaNodes.push(this.createSpan("nn-meta__segment nn-meta__segment--location", chapter.location));
+        if (chapter.locations.length > 0) {
+            const segment = this.createSpan("nn-meta__segment nn-meta__segment--location", "");
+            chapter.locations.forEach((location, i) => {
+                if (i > 0) segment.append(", ");
+                segment.append(this.createLocationLink(location, chapter));
+            });
+            metaNodes.push(segment);
         }
 
         // Atomic update
@@ -137,6 +308,73 @@ export class ChapterToolbar extends BaseToolbar {
         return metaContainer;
     }
 
+    /**
+     * The word count of the open stage file, measured against the chapter's target. On the chapter
+     * info file, the count of the chapter's most advanced stage is shown instead.
+     */
+    private createWordCount({chapter, stage, file}: StageEntry): HTMLElement | null {
+        const progress = this.actions.getChapterProgress(chapter);
+        const words = stage === "info" ? progress.words : this.actions.getWordCount(file);
+        if (words === undefined || (stage === "info" && !progress.stage)) return null;
+
+        const el = this.createSpan("nn-meta__segment nn-meta__segment--words", formatWordCount(words, progress.target));
+        if (stage === "info") {
+            el.setAttribute("aria-label", `Counted in the ${progress.stage} stage`);
+        }
+        return el;
+    }
+
+    private createPovBadge(chapter: ChapterEntry): HTMLElement {
+        const pov = chapter.pov!;
+        const badge = this.createSpan("nn-meta__segment nn-meta__segment--pov",
+            this.createSpan("nn-meta__pov", pov.name));
+        badge.setAttribute("aria-label", `Point of view: ${pov.name}`);
+
+        if (pov.file) {
+            const file = pov.file;
+            badge.addClass("is-clickable");
+            badge.addEventListener("click", () => this.openFile(file));
+        }
+        return badge;
+    }
+
+    /**
+     * A location name that opens a menu of every chapter set there, across books.
+     */
+    private createLocationLink(location: LocationEntry, current: ChapterEntry): HTMLElement {
+        const link = this.createSpan("nn-meta__location", location.name);
+        link.setAttribute("aria-label", `${location.chapters.length} chapter(s) set in ${location.name}`);
+
+        link.addEventListener("click", (e) => {
+            const menu = new Menu();
+
+            if (location.file) {
+                const file = location.file;
+                menu.addItem(item => item
+                    .setTitle(`Open ${location.name}`)
+                    .setIcon("map-pin")
+                    .onClick(() => this.openFile(file)));
+                menu.addSeparator();
+            }
+
+            for (const chapter of location.chapters) {
+                const title = chapter.book === current.book
+                    ? getFullChapterLabel(chapter)
+                    : `${chapter.book.title} · ${getFullChapterLabel(chapter)}`;
+
+                menu.addItem(item => item
+                    .setTitle(title)
+                    .setChecked(chapter === current)
+                    .onClick(() => {
+                        this.openFile(chapter.info ?? chapter.file);
+                    }));
+            }
+
+            menu.showAtMouseEvent(e);
+        });
+        return link;
+    }
+
     private createSpan(className: string, content: string | Node): HTMLElement {
         const el = document.createElement("span");
         el.className = className;
@@ -0,0 +1,64 @@
+// src/toolbars/CharacterToolbar.ts
+import {App} from "obsidian";
+import {BaseToolbar} from "./BaseToolbar";
+import {AppearanceNavigationTargets, ChapterEntry, CharacterEntry, NavigationTarget} from "../types";
+
+interface CharacterToolbarIcons {
+    next: string;
+    previous: string;
+}
+
+/**
+ * Toolbar for character notes: lists the chapters the character appears in, with previous/next
+ * appearance buttons relative to the chapter visited last.
+ */
+export class CharacterToolbar extends BaseToolbar {
+    constructor(
+        app: App,
+        private container: HTMLElement,
+        private icons: CharacterToolbarIcons
+    ) {
+        super(app);
+    }
+
+    public destroy() {
+    }
+
+    public update(character: CharacterEntry, nav: AppearanceNavigationTargets, current: ChapterEntry | null) {
+        this.container.className = "nn-toolbar";
+        this.container.innerHTML = "";
+
+        const controls = this.container.createDiv({cls: "nn-controls"});
+        controls.append(
+            this.createAppearanceButton(this.icons.previous, "Previous Appearance", nav.previous),
+            this.createAppearanceButton(this.icons.next, "Next Appearance", nav.next)
+        );
+
+        const povCount = character.chapters.filter(c => c.pov === character).length;
+        controls.createSpan({
+            cls: "nn-note__name",
+            text: `${character.name} · ${character.chapters.length}`,
+            attr: {"aria-label": `Appears in ${character.chapters.length} chapter(s), ${povCount} as POV`},
+        });
+
+        for (const [chapter, btn] of this.createChapterList(controls, character.chapters)) {
+            btn.toggleClass("is-pov", chapter.pov === character);
+            if (chapter === current) {
+                btn.dataset.active = "";
+            }
+        }
+    }
+
+    private createAppearanceButton(icon: string, label: string, target: NavigationTarget): HTMLButtonElement {
+        return this.createIconNavButton(
+            this.svgFromString(icon),
+            target.kind === "file" && target.label ? `${label}: ${target.label}` : label,
+            () => {
+                if (target.kind === "file") {
+                    this.openFile(target.file);
+                }
+            },
+            target.kind === "disabled"
+        );
+    }
+}
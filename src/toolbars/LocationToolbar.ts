@@ -0,0 +1,30 @@
+// src/toolbars/LocationToolbar.ts
+import {App} from "obsidian";
+import {BaseToolbar} from "./BaseToolbar";
+import {LocationEntry} from "../types";
+
+/**
+ * Toolbar for location notes: lists every chapter set at the location, grouped by book.
+ */
+export class LocationToolbar extends BaseToolbar {
+    constructor(app: App, private container: HTMLElement) {
+        super(app);
+    }
+
+    public destroy() {
+    }
+
+    public update(location: LocationEntry) {
+        this.container.className = "nn-toolbar";
+        this.container.innerHTML = "";
+
+        const controls = this.container.createDiv({cls: "nn-controls"});
+        controls.createSpan({
+            cls: "nn-note__name",
+            text: `${location.name} · ${location.chapters.length}`,
+            attr: {"aria-label": `${location.chapters.length} chapter(s) set here`},
+        });
+
+        this.createChapterList(controls, location.chapters);
+    }
+}
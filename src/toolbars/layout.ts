@@ -0,0 +1,174 @@
+// src/toolbars/layout.ts
+import {getPartHeading} from "../labels";
+import {ChapterEntry} from "../types";
+
+// Safety margin, in pixels, kept free at the end of the toolbar
+const BUFFER = 10;
+// Longest label a chapter button shows before it is cut short
+const MAX_BUTTON_LABEL = 12;
+
+/**
+ * Which chapter buttons to hide, as an inclusive index range, and whether the overflow button that
+ * lists them is shown. The range is null when nothing is hidden.
+ */
+export interface Squeeze {
+    hideStart: number | null;
+    hideEnd: number | null;
+    showOverflow: boolean;
+}
+
+/**
+ * The labels of the book toolbar's chapter buttons: numbered chapters show just their number, others
+ * their label, cut short when long.
+ */
+export function getChapterButtonLabels(chapters: ChapterEntry[]): string[] {
+    return chapters.map(({shortLabel}) => shortLabel.length > MAX_BUTTON_LABEL
+        ? `${shortLabel.slice(0, MAX_BUTTON_LABEL - 1).trimEnd()}…`
+        : shortLabel);
+}
+
+/**
+ * Everything about the chapters that the book toolbar's buttons are built from: which chapters there
+ * are, their labels and their parts. The buttons are only rebuilt when it changes.
+ */
+export function getChapterSignature(chapters: ChapterEntry[]): string {
+    return chapters
+        .map(c => [c.file.path, c.chapterNumber ?? "", c.shortLabel, c.chapterLabel, c.part ? getPartHeading(c.part) : ""].join("#"))
+        .join("|");
+}
+
+/**
+ * The index at which the overflow button goes so that it sits at the pixel-based centre of the
+ * chapter buttons.
+ */
+export function findMiddleSplit(widths: number[]): number {
+    const targetMid = widths.reduce((acc, w) => acc + w, 0) / 2;
+    let currentWidth = 0;
+
+    for (let i = 0; i < widths.length; i++) {
+        currentWidth += widths[i];
+        if (currentWidth >= targetMid) {
+            return i;
+        }
+    }
+    return widths.length;
+}
+
+/**
+ * Collapses chapters from the middle outwards until the rest fit either side of the overflow button.
+ */
+export function calculateSqueeze(widths: number[], containerWidth: number, overflowWidth: number): Squeeze {
+    let leftIndices = widths.map((_, i) => i);
+    let rightIndices: number[] = [];
+
+    const totalNatural = widths.reduce((acc, w) => acc + w, 0);
+
+    // Full fit check
+    if (totalNatural + BUFFER <= containerWidth) {
+        return {hideStart: null, hideEnd: null, showOverflow: false};
+    }
+
+    // Initial split
+    let currentRightWidth = 0;
+    while (currentRightWidth < totalNatural / 2 && leftIndices.length > 1) {
+        const idx = leftIndices.pop()!;
+        rightIndices.unshift(idx);
+        currentRightWidth += widths[idx];
+    }
+
+    // Squeeze loop
+    const getWidth = (indices: number[]) => indices.reduce((acc, i) => acc + widths[i], 0);
+    while (getWidth(leftIndices) + getWidth(rightIndices) + overflowWidth + BUFFER > containerWidth) {
+        if (leftIndices.length === 0 && rightIndices.length === 0) {
+            break;
+        }
+
+        let pullFromLeft = false;
+        if (leftIndices.length > 0 && rightIndices.length === 0) {
+            pullFromLeft = true;
+        } else if (leftIndices.length === 0 && rightIndices.length > 0) {
+            pullFromLeft = false;
+        } else {
+            pullFromLeft = getWidth(leftIndices) >= getWidth(rightIndices);
+        }
+
+        if (pullFromLeft) {
+            leftIndices.pop();
+        } else {
+            rightIndices.shift();
+        }
+    }
+
+    // Determine the hidden range
+    // The hidden range is everything between the last left and the first right
+    const hideStart = leftIndices.length > 0 ? leftIndices[leftIndices.length - 1] + 1 : 0;
+    const hideEnd = rightIndices.length > 0 ? rightIndices[0] - 1 : widths.length - 1;
+
+    return {
+        hideStart: hideStart <= hideEnd ? hideStart : null,
+        hideEnd: hideStart <= hideEnd ? hideEnd : null,
+        showOverflow: true
+    };
+}
+
+/**
+ * Keeps as many chapters from the start as fit next to the overflow button, which holds the rest.
+ */
+export function calculateTruncateEnd(widths: number[], containerWidth: number, overflowWidth: number): Squeeze {
+    const totalNatural = widths.reduce((acc, w) => acc + w, 0);
+    if (totalNatural + BUFFER <= containerWidth) {
+        return {hideStart: null, hideEnd: null, showOverflow: false};
+    }
+
+    let width = overflowWidth + BUFFER;
+    let shown = 0;
+    while (shown < widths.length && width + widths[shown] <= containerWidth) {
+        width += widths[shown++];
+    }
+
+    return {hideStart: shown, hideEnd: widths.length - 1, showOverflow: true};
+}
+
+/**
+ * The window of chapters the dynamic scrubber shows: as many as fit, starting from `start`, or
+ * centred on `focus` when `start` is null. A window that would run past the end is pulled back to
+ * fill the toolbar.
+ */
+export function calculateWindow(
+    widths: number[],
+    containerWidth: number,
+    start: number | null,
+    focus: number
+): { start: number, end: number } {
+    const fits = (width: number) => width + BUFFER <= containerWidth;
+    const last = Math.max(0, widths.length - 1);
+
+    let first = Math.min(Math.max(0, start ?? focus), last);
+    let end = first;
+    let width = widths[first] ?? 0;
+
+    if (start === null) {
+        // Grow around the focus, one chapter to either side in turn
+        let grew = true;
+        while (grew) {
+            grew = false;
+            if (end < last && fits(width + widths[end + 1])) {
+                width += widths[++end];
+                grew = true;
+            }
+            if (first > 0 && fits(width + widths[first - 1])) {
+                width += widths[--first];
+                grew = true;
+            }
+        }
+    } else {
+        while (end < last && fits(width + widths[end + 1])) {
+            width += widths[++end];
+        }
+        while (first > 0 && fits(width + widths[first - 1])) {
+            width += widths[--first];
+        }
+    }
+
+    return {start: first, end};
+}
@@ -1,52 +1,259 @@
 // src/types.ts
 import {TFile} from "obsidian";
 
+export interface AppearanceNavigationTargets {
+    // A character's appearances before and after the chapter navigated from
+    previous: NavigationTarget;
+    next: NavigationTarget;
+}
+
+export interface BackReference {
+    file: TFile;
+    // Path of the chapter file that `chapter_refer` resolves to
+    chapterPath?: string;
+    // Lower-cased basename of the `chapter_refer` link when it does not resolve
+    unresolved?: string;
+    // The stage definition `chapter_stage` names, if it names a known one
+    stage?: ChapterStage;
+    rawStage?: string;
+}
+
+export interface BookDependencies {
+    // Paths of the chapter and stage files the book was built from
+    files: Set<string>;
+    // Lower-cased basenames of links that did not resolve to a file
+    unresolved: Set<string>;
+    // Lower-cased book ID used to pick up files by naming convention
+    bookId?: string;
+}
+
 export interface BookEntry {
     file: TFile;
     title: string;
+    id?: string;
+
+    series?: SeriesEntry;
+    seriesOrder?: number;
 
     prologue?: ChapterEntry;
     epilogue?: ChapterEntry;
     chapters: ChapterEntry[];
+    // Empty unless the book lists its chapters in parts
+    parts: PartEntry[];
+}
+
+export interface BookProgress {
+    words: number;
+    // Sum of the chapter targets, if any chapter has one
+    target?: number;
+}
+
+export interface BookToolbarSettings {
+    // How chapter buttons that don't fit are collapsed
+    mode: BookToolbarMode;
 }
 
 export interface ChapterEntry {
     book: BookEntry;
     file: TFile;
     index: number;
-    kind: "prologue" | "chapter" | "epilogue";
+    kind: ChapterKind;
 
+    // null for the prologue, epilogue, interludes and chapters set `chapter_numbered: false`
     chapterNumber: number | null;
     chapterLabel: string;
+    // What the chapter's button shows: the number as the label writes it, or else the label
+    shortLabel: string;
+    title?: string;
+    // False when the chapter is set `chapter_numbered: false`
+    numbered: boolean;
+    // The part the chapter is listed in; the prologue and epilogue belong to none
+    part?: PartEntry;
 
     datetime?: string;
+    // `datetime` parsed; undefined when it is missing or matches no format
+    time?: StoryTime;
+    // Set with `chapter_flashback`; the chapter may go back in time without being flagged
+    flashback: boolean;
     location?: string;
+    // `location` resolved; a chapter may list more than one
+    locations: LocationEntry[];
+    // Point-of-view character, also listed among the characters
+    pov?: CharacterEntry;
+    characters: CharacterEntry[];
+    targetWords?: number;
+
+    status: ChapterStatus;
+    // Whether the status was set with `chapter_status` rather than derived from the stage files
+    hasExplicitStatus: boolean;
 
     info?: TFile;
-    outline?: TFile;
-    draft?: TFile;
-    final?: TFile;
+    stages: Map<ChapterStage, TFile>;
+}
+
+export interface ChapterLabelSettings {
+    // Whether chapter numbers run through the book or restart in each part
+    numbering: ChapterNumbering;
+    // Label formats, filled in with {n}, {n:roman}, {n:words} and {title}
+    chapterFormat: string;
+    unnumberedFormat: string;
+    interludeFormat: string;
+    prologueFormat: string;
+    epilogueFormat: string;
 }
 
 export interface ChapterNavigationTargets {
-    // Stage navigation
-    outline: NavigationTarget;
-    draft: NavigationTarget;
-    final: NavigationTarget;
+    // Stage navigation, in the configured stage order
+    stages: StageNavigationTarget[];
 
     // Chapter navigation
     previous: NavigationTarget;
     next: NavigationTarget;
+    first: NavigationTarget;
+    last: NavigationTarget;
 
     // Info navigation
     bookInfo: NavigationTarget;
     chapterInfo: NavigationTarget;
 }
 
+export interface ChapterProgress {
+    // Words in the chapter's most advanced stage file
+    words: number;
+    target?: number;
+    // The stage the words were counted in; undefined when the chapter has no stage files
+    stage?: ChapterStage;
+}
+
+// A character, with every chapter they appear in
+export type CharacterEntry = NoteGroup;
+
+export interface CompileSettings {
+    // Stages to compile from, in order of preference; a chapter without the first falls back to the next
+    stages: ChapterStage[];
+    // Replaces scene break lines (***, ---, #) in the manuscript
+    sceneSeparator: string;
+    // Path pattern of the manuscript, with the variables {{book_title}}, {{book_folder}}, {{stage}} and {{date}}
+    outputPath: string;
+}
+
+export interface FilenameInferenceSettings {
+    enabled: boolean;
+    // Regular expression with named groups `book`, `chapter` and optionally `stage`
+    pattern: string;
+}
+
+export interface FrontmatterKeys {
+    bookId: string;
+    bookTitle: string;
+    chapters: string;
+    // A list of parts, each with a `title` and its own `chapters` list
+    parts: string;
+    prologue: string;
+    epilogue: string;
+    chapterDatetime: string;
+    chapterFlashback: string;
+    // "interlude" marks an interlude; the prologue and epilogue are set on the book
+    chapterKind: string;
+    chapterLocation: string;
+    // Set to false for a chapter that takes no number
+    chapterNumbered: string;
+    chapterPov: string;
+    chapterCharacters: string;
+    chapterRefer: string;
+    chapterStage: string;
+    chapterStatus: string;
+    chapterTargetWords: string;
+    chapterTitle: string;
+    series: string;
+    seriesOrder: string;
+    // Written by stage promotion
+    promotedFrom: string;
+    promotedAt: string;
+    frozen: string;
+}
+
+export interface IndexDiagnostic {
+    kind: DiagnosticKind;
+    // The book info file the problem was found in; undefined for files outside any book
+    book?: TFile;
+    // The file to open to fix the problem
+    file: TFile;
+    message: string;
+}
+
+export interface InferredFile {
+    file: TFile;
+    bookId: string;
+    chapterNumber: number;
+    // 0 is the chapter info file, 1..n are the configured stages in order
+    stageIndex: number;
+}
+
+// A location, with every chapter set there
+export type LocationEntry = NoteGroup;
+
+export interface NavigationSettings {
+    // What Previous/Next do when the adjacent chapter lacks the current stage
+    adjacentFallback: AdjacentFallback;
+    // Whether Previous/Next continue into the neighbouring book of a series
+    crossBooks: boolean;
+}
+
+export interface NewFileSettings {
+    // Vault paths of new files, without extension; support the template variables
+    stagePathPattern: string;
+    chapterPathPattern: string;
+    // Path of the note new chapter info files are created from
+    chapterTemplate: string;
+    // Whether promoting a stage marks the stage file it was copied from as frozen
+    freezeOnPromote: boolean;
+}
+
+/**
+ * Chapters that name the same thing, such as a location or a character, either in plain text or by
+ * linking to a note about it.
+ */
+export interface NoteGroup {
+    key: string;
+    name: string;
+    // The note, when chapters link to one
+    file?: TFile;
+    // Every chapter in the group, across books, ordered by book title and reading order
+    chapters: ChapterEntry[];
+}
+
 export interface NovelIndex {
     books: Map<string, BookEntry>;
     chapters: Map<string, ChapterEntry>;
     stages: Map<string, StageEntry>;
+    // Keyed by series note path, or by lower-cased series name when it isn't a link
+    series: Map<string, SeriesEntry>;
+    // Keyed like series: by location note path, or by lower-cased location name
+    locations: Map<string, LocationEntry>;
+    characters: Map<string, CharacterEntry>;
+}
+
+export interface NovelNavigatorSettings {
+    properties: FrontmatterKeys;
+    stages: StageDefinition[];
+    inference: FilenameInferenceSettings;
+    newFiles: NewFileSettings;
+    navigation: NavigationSettings;
+    timeline: TimelineSettings;
+    compile: CompileSettings;
+    bookToolbar: BookToolbarSettings;
+    labels: ChapterLabelSettings;
+}
+
+export interface PartEntry {
+    book: BookEntry;
+    index: number;
+    // "Part II"
+    label: string;
+    // As given in the frontmatter, or else the label
+    title: string;
+    chapters: ChapterEntry[];
 }
 
 export interface PendingBook {
@@ -56,6 +263,31 @@ export interface PendingBook {
     prologueFile?: TFile;
     epilogueFile?: TFile;
     chapterFiles: TFile[];
+    // The parts listing the chapter files, in order; each chapter file is keyed to its part's index
+    parts: { title?: string }[];
+    chapterParts: Map<TFile, number>;
+
+    bookId?: string;
+    // Inferred chapters by chapter number, each mapping stage index to file
+    inferredChapters: Map<number, Map<number, TFile>>;
+}
+
+export interface SeriesEntry {
+    key: string;
+    name: string;
+    // The series note, when the books link to one
+    file?: TFile;
+    // In reading order: by series order, then title
+    books: BookEntry[];
+}
+
+export interface StageDefinition {
+    name: ChapterStage;
+    key: string;
+    icon: string;
+    label: string;
+    // Path of the note new files of this stage are created from
+    template?: string;
 }
 
 export interface StageEntry {
@@ -64,17 +296,67 @@ export interface StageEntry {
     stage: ChapterStage;
 }
 
+export interface StageNavigationTarget {
+    definition: StageDefinition;
+    target: NavigationTarget;
+}
+
+export interface StoryTime {
+    raw: string;
+    // Index of the first component present: 0 year, 1 month, 2 day, 3 hour, 4 minute
+    start: number;
+    // The consecutive components present, from `start` on
+    parts: number[];
+}
+
+export interface TimelineSettings {
+    // Regular expressions for in-world dates, with named groups `year`, `month`, `day`, `hour`, `minute`
+    formats: string[];
+}
+
+export type AdjacentFallback =
+    // Disable the button
+    | "disable"
+    // Skip ahead to the nearest chapter that has the stage
+    | "skip"
+    // Open the adjacent chapter's nearest earlier stage, down to its chapter info file
+    | "stage-order";
+
 export type BookToolbarMode = "truncate-end" | "truncate-middle" | "dynamic-scrubber";
 
-export type ChapterStage = "info" | "outline" | "draft" | "final";
+export type DiagnosticKind =
+    | "unresolved-link"
+    | "duplicate-chapter"
+    | "duplicate-stage"
+    | "orphaned-stage"
+    | "empty-chapter"
+    | "conflict";
+
+export type ChapterKind = "prologue" | "chapter" | "interlude" | "epilogue";
+
+export type ChapterNumbering = "continuous" | "per-part";
+
+// "info" is reserved for the chapter info file; every other stage is user-defined.
+export type ChapterStage = string;
+
+export type ChapterStatus = "planned" | "outlining" | "drafting" | "revising" | "done";
+
+export type ChapterPlacement =
+    | { kind: "before"; chapter: ChapterEntry }
+    | { kind: "after"; chapter: ChapterEntry }
+    | { kind: "end" }
+    | { kind: "prologue" }
+    | { kind: "epilogue" };
 
 export type NavigationTarget =
-    | { kind: "file"; file: TFile }
+    // `label` describes where the target is when that isn't obvious, e.g. "Chapter 8 · Outline"
+    | { kind: "file"; file: TFile; label?: string }
     | { kind: "disabled" };
 
 export type ToolbarMode =
     | { kind: "none" }
     | { kind: "book-info"; book: BookEntry }
     | { kind: "chapter-info"; chapter: ChapterEntry }
-    | { kind: "chapter-stage"; stage: StageEntry };
-
+    | { kind: "chapter-stage"; stage: StageEntry }
+    | { kind: "location"; location: LocationEntry }
+    | { kind: "character"; character: CharacterEntry };
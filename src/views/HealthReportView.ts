@@ -0,0 +1,98 @@
+// src/views/HealthReportView.ts
+import {ItemView, WorkspaceLeaf} from "obsidian";
+import {NovelIndexer} from "../indexer";
+import {DiagnosticKind, IndexDiagnostic} from "../types";
+
+export const VIEW_TYPE_HEALTH_REPORT = "novel-navigator-health-report";
+
+const KIND_LABELS: Record<DiagnosticKind, string> = {
+    "unresolved-link": "Unresolved link",
+    "duplicate-chapter": "Duplicate chapter",
+    "duplicate-stage": "Duplicate stage",
+    "orphaned-stage": "Orphaned stage",
+    "empty-chapter": "No stages",
+    "conflict": "Conflict",
+};
+
+export class HealthReportView extends ItemView {
+    constructor(leaf: WorkspaceLeaf, private indexer: NovelIndexer) {
+        super(leaf);
+    }
+
+    public getViewType(): string {
+        return VIEW_TYPE_HEALTH_REPORT;
+    }
+
+    public getDisplayText(): string {
+        return "Novel index health";
+    }
+
+    public getIcon(): string {
+        return "stethoscope";
+    }
+
+    async onOpen() {
+        this.registerEvent(this.indexer.on("index-changed", () => this.render()));
+        this.render();
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("nn-health-report");
+
+        const diagnostics = this.indexer.getDiagnostics();
+        if (diagnostics.length === 0) {
+            container.createDiv({cls: "nn-health-report__empty", text: "No problems found."});
+            return;
+        }
+
+        for (const {title, group} of this.groupByBook(diagnostics)) {
+            const section = container.createDiv({cls: "nn-health-report__book"});
+            section.createEl("h4", {text: `${title} (${group.length})`});
+
+            const list = section.createEl("ul", {cls: "nn-health-report__list"});
+            for (const diagnostic of group) {
+                const row = list.createEl("li", {cls: "nn-health-report__row"});
+                row.dataset.kind = diagnostic.kind;
+
+                row.createSpan({cls: "nn-health-report__kind", text: KIND_LABELS[diagnostic.kind]});
+                row.createSpan({cls: "nn-health-report__file", text: diagnostic.file.basename});
+                row.createSpan({cls: "nn-health-report__message", text: diagnostic.message});
+                row.setAttribute("aria-label", diagnostic.file.path);
+
+                row.addEventListener("click", () => {
+                    void this.app.workspace.openLinkText(diagnostic.file.path, "", false);
+                });
+            }
+        }
+    }
+
+    /**
+     * Groups diagnostics by the book they were found in. Problems outside any book are listed last.
+     */
+    private groupByBook(diagnostics: IndexDiagnostic[]): { title: string, group: IndexDiagnostic[] }[] {
+        const books = this.indexer.getIndex().books;
+        const groups = new Map<string, { title: string, group: IndexDiagnostic[] }>();
+        const outside: IndexDiagnostic[] = [];
+
+        for (const diagnostic of diagnostics) {
+            if (!diagnostic.book) {
+                outside.push(diagnostic);
+                continue;
+            }
+
+            const path = diagnostic.book.path;
+            if (!groups.has(path)) {
+                groups.set(path, {title: books.get(path)?.title ?? diagnostic.book.basename, group: []});
+            }
+            groups.get(path)!.group.push(diagnostic);
+        }
+
+        const result = [...groups.values()];
+        if (outside.length > 0) {
+            result.push({title: "Not part of any book", group: outside});
+        }
+        return result;
+    }
+}
@@ -0,0 +1,254 @@
+// src/views/OutlineView.ts
+import {ItemView, Notice, setIcon, TFile, WorkspaceLeaf} from "obsidian";
+import {iconFromName} from "../icons";
+import {NovelIndexer} from "../indexer";
+import {getFullChapterLabel} from "../labels";
+import {logger} from "../logger";
+import {BookEntry, ChapterEntry, NovelNavigatorSettings} from "../types";
+
+export const VIEW_TYPE_OUTLINE = "novel-navigator-outline";
+
+export class OutlineView extends ItemView {
+    // Chapters start collapsed and books expanded; these hold the paths toggled away from that.
+    private expanded = new Set<string>();
+    private collapsedBooks = new Set<string>();
+
+    private draggedChapter: ChapterEntry | null = null;
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private indexer: NovelIndexer,
+        private settings: NovelNavigatorSettings,
+        private stageIcons: Record<string, string>
+    ) {
+        super(leaf);
+    }
+
+    public getViewType(): string {
+        return VIEW_TYPE_OUTLINE;
+    }
+
+    public getDisplayText(): string {
+        return "Novel outline";
+    }
+
+    public getIcon(): string {
+        return "list-tree";
+    }
+
+    async onOpen() {
+        this.registerEvent(this.indexer.on("index-changed", () => this.render()));
+        this.render();
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("nn-outline");
+
+        const books = [...this.indexer.getIndex().books.values()]
+            .sort((a, b) => a.title.localeCompare(b.title));
+
+        if (books.length === 0) {
+            container.createDiv({cls: "nn-outline__empty", text: "No books found."});
+            return;
+        }
+
+        for (const book of books) {
+            this.renderBook(container, book);
+        }
+    }
+
+    private renderBook(parent: HTMLElement, book: BookEntry) {
+        const isCollapsed = this.collapsedBooks.has(book.file.path);
+        const {item, self, children} = this.createTreeItem(parent, book.title, isCollapsed, () => {
+            this.toggle(this.collapsedBooks, book.file.path);
+        });
+        item.addClass("nn-outline__book");
+        self.addEventListener("click", () => this.openFile(book.file));
+
+        for (const chapter of book.chapters) {
+            this.renderChapter(children, chapter);
+        }
+    }
+
+    private renderChapter(parent: HTMLElement, chapter: ChapterEntry) {
+        const isCollapsed = !this.expanded.has(chapter.file.path);
+        const {item, self, inner, children} = this.createTreeItem(parent, getFullChapterLabel(chapter), isCollapsed, () => {
+            this.toggle(this.expanded, chapter.file.path);
+        });
+        item.addClass("nn-outline__chapter");
+        item.dataset.kind = chapter.kind;
+
+        inner.createSpan({cls: "nn-outline__filename", text: chapter.file.basename});
+        self.addEventListener("click", () => this.openFile(chapter.info ?? chapter.file));
+
+        // Stage completeness
+        const flair = self.createDiv({cls: "nn-outline__stages"});
+        for (const definition of this.indexer.getStageDefinitions()) {
+            const icon = flair.createSpan({cls: "nn-outline__stage"});
+            icon.toggleClass("is-present", chapter.stages.has(definition.name));
+            icon.setAttribute("aria-label", definition.label || definition.name);
+            icon.appendChild(iconFromName(definition.icon, this.stageIcons));
+        }
+
+        for (const definition of this.indexer.getStageDefinitions()) {
+            const file = chapter.stages.get(definition.name);
+            if (!file) continue;
+
+            const stageItem = children.createDiv({cls: "tree-item nn-outline__stage-file"});
+            const stageSelf = stageItem.createDiv({cls: "tree-item-self is-clickable"});
+            stageSelf.createDiv({cls: "tree-item-icon"}).appendChild(iconFromName(definition.icon, this.stageIcons));
+            stageSelf.createDiv({cls: "tree-item-inner", text: file.basename});
+            stageSelf.addEventListener("click", () => this.openFile(file));
+        }
+
+        if (this.canReorder(chapter)) {
+            this.makeDraggable(self, chapter);
+        }
+    }
+
+    private createTreeItem(parent: HTMLElement, text: string, isCollapsed: boolean, onToggle: () => void) {
+        const item = parent.createDiv({cls: "tree-item"});
+        item.toggleClass("is-collapsed", isCollapsed);
+
+        const self = item.createDiv({cls: "tree-item-self is-clickable mod-collapsible"});
+        const collapse = self.createDiv({cls: "tree-item-icon collapse-icon"});
+        collapse.toggleClass("is-collapsed", isCollapsed);
+        setIcon(collapse, "right-triangle");
+        collapse.addEventListener("click", (e) => {
+            e.stopPropagation();
+            onToggle();
+            this.render();
+        });
+
+        const inner = self.createDiv({cls: "tree-item-inner"});
+        inner.createSpan({text});
+
+        const children = item.createDiv({cls: "tree-item-children"});
+        return {item, self, inner, children};
+    }
+
+    private toggle(set: Set<string>, path: string) {
+        if (set.has(path)) {
+            set.delete(path);
+        } else {
+            set.add(path);
+        }
+    }
+
+    private openFile(file: TFile) {
+        void this.app.workspace.openLinkText(file.path, "", false);
+    }
+
+    // ─────────────────────────────────────────────
+    // Drag to Reorder
+    // ─────────────────────────────────────────────
+
+    /**
+     * Only chapters and interludes of books with an explicit chapter list, or a list of parts, can be
+     * reordered; the prologue and epilogue have fixed positions, and inferred chapters are ordered by
+     * their file names.
+     */
+    private canReorder(chapter: ChapterEntry): boolean {
+        const fm = this.app.metadataCache.getFileCache(chapter.book.file)?.frontmatter;
+        return (chapter.kind === "chapter" || chapter.kind === "interlude")
+            && !!fm && this.getChapterLists(fm).length > 0;
+    }
+
+    /**
+     * The raw chapter lists of a book's frontmatter: the `chapters` list of each part, or when the
+     * book has no parts (which take precedence, as in the index) its `chapters` list.
+     */
+    private getChapterLists(fm: Record<string, any>): unknown[][] {
+        const {parts, chapters} = this.settings.properties;
+        if (!Array.isArray(fm[parts])) {
+            return Array.isArray(fm[chapters]) ? [fm[chapters]] : [];
+        }
+
+        return (fm[parts] as unknown[])
+            .map(part => typeof part === "object" && part !== null ? (part as Record<string, unknown>).chapters : null)
+            .filter((list): list is unknown[] => Array.isArray(list));
+    }
+
+    private makeDraggable(el: HTMLElement, chapter: ChapterEntry) {
+        el.draggable = true;
+
+        el.addEventListener("dragstart", (e) => {
+            this.draggedChapter = chapter;
+            e.dataTransfer?.setData("text/plain", chapter.file.path);
+            el.addClass("is-dragging");
+        });
+
+        el.addEventListener("dragend", () => {
+            this.draggedChapter = null;
+            el.removeClass("is-dragging");
+        });
+
+        el.addEventListener("dragover", (e) => {
+            const dragged = this.draggedChapter;
+            if (!dragged || dragged.book !== chapter.book || dragged === chapter) return;
+
+            e.preventDefault();
+            const before = this.isUpperHalf(el, e);
+            el.toggleClass("nn-drop-before", before);
+            el.toggleClass("nn-drop-after", !before);
+        });
+
+        el.addEventListener("dragleave", () => {
+            el.removeClass("nn-drop-before", "nn-drop-after");
+        });
+
+        el.addEventListener("drop", (e) => {
+            el.removeClass("nn-drop-before", "nn-drop-after");
+
+            const dragged = this.draggedChapter;
+            if (!dragged || dragged.book !== chapter.book || dragged === chapter) return;
+
+            e.preventDefault();
+            void this.moveChapter(dragged, chapter, this.isUpperHalf(el, e));
+        });
+    }
+
+    private isUpperHalf(el: HTMLElement, e: DragEvent): boolean {
+        const rect = el.getBoundingClientRect();
+        return e.clientY < rect.top + rect.height / 2;
+    }
+
+    /**
+     * Moves a chapter's entry in the book's chapter list so that it sits before or after another; in a
+     * book of parts, this moves it into the target's part. The raw entries are moved as-is, so unresolved
+     * links and link aliases keep their place.
+     */
+    private async moveChapter(chapter: ChapterEntry, target: ChapterEntry, before: boolean) {
+        const book = chapter.book;
+
+        try {
+            await this.app.fileManager.processFrontMatter(book.file, (fm) => {
+                const lists = this.getChapterLists(fm);
+                const source = lists.find(list => this.findEntry(list, chapter.file, book.file) >= 0);
+                if (!source) return;
+
+                const from = this.findEntry(source, chapter.file, book.file);
+                const [entry] = source.splice(from, 1);
+                const destination = lists.find(list => this.findEntry(list, target.file, book.file) >= 0);
+                if (!destination) {
+                    source.splice(from, 0, entry);
+                    return;
+                }
+
+                const to = this.findEntry(destination, target.file, book.file);
+                destination.splice(before ? to : to + 1, 0, entry);
+            });
+        } catch (e) {
+            logger.error(`Failed to reorder chapters of "${book.title}".`, e);
+            new Notice(`Could not reorder the chapters of "${book.title}".`);
+        }
+    }
+
+    private findEntry(entries: unknown[], file: TFile, source: TFile): number {
+        return entries.findIndex(entry =>
+            typeof entry === "string" && this.indexer.resolveWikiLink(entry, source) === file
+        );
+    }
+}
@@ -0,0 +1,293 @@
+// src/views/StageDiffView.ts
+import {App, DropdownComponent, ItemView, TAbstractFile, ViewStateResult, WorkspaceLeaf} from "obsidian";
+import {DiffGranularity, DiffPart, DiffRow, diffNotes} from "../diff";
+import {NovelIndexer} from "../indexer";
+import {getFullChapterLabel} from "../labels";
+import {ChapterEntry, ChapterStage, StageDefinition} from "../types";
+
+export const VIEW_TYPE_STAGE_DIFF = "novel-navigator-stage-diff";
+
+export type DiffLayout = "inline" | "side-by-side";
+
+export interface StageDiffState {
+    // Path of the chapter, as keyed in the index
+    chapter: string;
+    before: ChapterStage;
+    after: ChapterStage;
+    layout: DiffLayout;
+    granularity: DiffGranularity;
+}
+
+/**
+ * Picks the two stages to compare by default: the open stage against the one before it that exists,
+ * or else the chapter's first two stages. Returns null when the chapter has fewer than two stage files.
+ */
+export function getDefaultComparison(
+    chapter: ChapterEntry,
+    definitions: StageDefinition[],
+    current: ChapterStage | null
+): { before: ChapterStage, after: ChapterStage } | null {
+    const existing = definitions.map(d => d.name).filter(name => chapter.stages.has(name));
+    if (existing.length < 2) return null;
+
+    const index = current ? existing.indexOf(current) : -1;
+    if (index > 0) return {before: existing[index - 1], after: existing[index]};
+    if (index === 0) return {before: existing[0], after: existing[1]};
+    return {before: existing[existing.length - 2], after: existing[existing.length - 1]};
+}
+
+/**
+ * Opens the comparison in a new tab, or in the tab already showing a comparison.
+ */
+export async function openStageDiff(app: App, chapter: ChapterEntry, before: ChapterStage, after: ChapterStage) {
+    const leaf = app.workspace.getLeavesOfType(VIEW_TYPE_STAGE_DIFF)[0] ?? app.workspace.getLeaf("tab");
+    await leaf.setViewState({
+        type: VIEW_TYPE_STAGE_DIFF,
+        active: true,
+        state: {chapter: chapter.file.path, before, after},
+    });
+    await app.workspace.revealLeaf(leaf);
+}
+
+/**
+ * Shows what changed between two stage files of a chapter, such as its draft and final.
+ */
+export class StageDiffView extends ItemView {
+    private state: StageDiffState | null = null;
+    // Renders read files asynchronously; only the latest one may write to the view
+    private renderId = 0;
+    // The chapter and stage files the view was last rendered from, to skip index changes that don't affect it
+    private renderedPaths: string[] = [];
+    private renderedSource: string | null = null;
+
+    constructor(leaf: WorkspaceLeaf, private indexer: NovelIndexer) {
+        super(leaf);
+    }
+
+    public getViewType(): string {
+        return VIEW_TYPE_STAGE_DIFF;
+    }
+
+    public getDisplayText(): string {
+        const chapter = this.getChapter();
+        return chapter ? `${getFullChapterLabel(chapter)}: ${this.state!.before} → ${this.state!.after}` : "Stage comparison";
+    }
+
+    public getIcon(): string {
+        return "diff";
+    }
+
+    public getState(): Record<string, unknown> {
+        return {...super.getState(), ...this.state};
+    }
+
+    public async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        const value = state as Partial<StageDiffState> | null;
+        if (value?.chapter && value.before && value.after) {
+            this.state = {
+                chapter: value.chapter,
+                before: value.before,
+                after: value.after,
+                layout: value.layout ?? this.state?.layout ?? "side-by-side",
+                granularity: value.granularity ?? this.state?.granularity ?? "word",
+            };
+        }
+        await super.setState(state, result);
+        await this.render();
+    }
+
+    async onOpen() {
+        this.registerEvent(this.indexer.on("index-changed", (changed) => this.handleIndexChanged(changed)));
+        this.registerEvent(this.app.vault.on("modify", (file) => {
+            if (this.isCompared(file)) void this.render();
+        }));
+        // The chapter is kept by path, so follow its info file when it is renamed or moved
+        this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+            if (this.state?.chapter === oldPath) {
+                this.state.chapter = file.path;
+                this.app.workspace.requestSaveLayout();
+                void this.render();
+            }
+        }));
+        await this.render();
+    }
+
+    private getChapter(): ChapterEntry | undefined {
+        return this.state ? this.indexer.getIndex().chapters.get(this.state.chapter) : undefined;
+    }
+
+    private isCompared(file: TAbstractFile): boolean {
+        const chapter = this.getChapter();
+        if (!chapter || !this.state) return false;
+        return chapter.stages.get(this.state.before) === file || chapter.stages.get(this.state.after) === file;
+    }
+
+    /**
+     * Re-renders when the index changed the chapter or its stage files. Edits to the compared files are
+     * picked up by the modify handler, so the diff isn't recomputed for every change in the book.
+     */
+    private handleIndexChanged(changed: Set<string> | null) {
+        if (changed && !this.renderedPaths.some(path => changed.has(path))) return;
+        if (this.getRenderSource() !== this.renderedSource) void this.render();
+    }
+
+    // Everything the view shows apart from the files' text: the chapter's book and label, its stage files
+    // and the stage labels
+    private getRenderSource(): string {
+        const chapter = this.getChapter();
+        if (!chapter) return "";
+        const stages = [...chapter.stages].map(([stage, file]) => `${stage}=${file.path}`);
+        const labels = this.indexer.getStageDefinitions().map(d => d.label || d.name);
+        return [chapter.book.title, getFullChapterLabel(chapter), ...stages, ...labels].join("\n");
+    }
+
+    private async update(change: Partial<StageDiffState>) {
+        if (!this.state) return;
+        this.state = {...this.state, ...change};
+        this.app.workspace.requestSaveLayout();
+        await this.render();
+    }
+
+    private async render() {
+        const id = ++this.renderId;
+        const chapter = this.getChapter();
+        const state = this.state;
+
+        const beforeFile = state && chapter?.stages.get(state.before);
+        const afterFile = state && chapter?.stages.get(state.after);
+        this.renderedSource = this.getRenderSource();
+        this.renderedPaths = state ? [state.chapter, ...[...chapter?.stages.values() ?? []].map(file => file.path)] : [];
+        const contents = beforeFile && afterFile
+            ? await Promise.all([this.app.vault.cachedRead(beforeFile), this.app.vault.cachedRead(afterFile)])
+            : null;
+        if (id !== this.renderId) return;
+
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("nn-stage-diff");
+
+        if (!state || !chapter) {
+            container.createDiv({cls: "nn-stage-diff__empty", text: "The chapter is no longer part of a book."});
+            return;
+        }
+
+        this.renderHeader(container, chapter, state);
+
+        if (!contents) {
+            container.createDiv({cls: "nn-stage-diff__empty", text: "One of the stages has no file."});
+            return;
+        }
+
+        const rows = diffNotes(contents[0], contents[1], state.granularity);
+        this.renderSummary(container, rows);
+
+        const body = container.createDiv({cls: "nn-stage-diff__body"});
+        body.dataset.layout = state.layout;
+        for (const row of rows) {
+            if (state.layout === "inline") {
+                this.renderInlineRow(body, row);
+            } else {
+                this.renderSideBySideRow(body, row);
+            }
+        }
+    }
+
+    private renderHeader(parent: HTMLElement, chapter: ChapterEntry, state: StageDiffState) {
+        const header = parent.createDiv({cls: "nn-stage-diff__header"});
+        header.createSpan({cls: "nn-stage-diff__title", text: `${chapter.book.title} · ${getFullChapterLabel(chapter)}`});
+
+        const stages: Record<string, string> = {};
+        for (const definition of this.indexer.getStageDefinitions()) {
+            if (chapter.stages.has(definition.name)) {
+                stages[definition.name] = definition.label || definition.name;
+            }
+        }
+
+        new DropdownComponent(header)
+            .addOptions(stages)
+            .setValue(state.before)
+            .onChange(value => void this.update({before: value}));
+        header.createSpan({cls: "nn-stage-diff__arrow", text: "→"});
+        new DropdownComponent(header)
+            .addOptions(stages)
+            .setValue(state.after)
+            .onChange(value => void this.update({after: value}));
+
+        new DropdownComponent(header)
+            .addOptions({"side-by-side": "Side by side", "inline": "Inline"} satisfies Record<DiffLayout, string>)
+            .setValue(state.layout)
+            .onChange(value => void this.update({layout: value as DiffLayout}));
+        new DropdownComponent(header)
+            .addOptions({"word": "Words", "paragraph": "Paragraphs"} satisfies Record<DiffGranularity, string>)
+            .setValue(state.granularity)
+            .onChange(value => void this.update({granularity: value as DiffGranularity}));
+    }
+
+    private renderSummary(parent: HTMLElement, rows: DiffRow[]) {
+        const count = (kind: DiffRow["kind"]) => rows.filter(row => row.kind === kind).length;
+        const changed = count("changed");
+        const added = count("added");
+        const removed = count("removed");
+
+        const text = changed + added + removed === 0
+            ? "No differences."
+            : `${changed} paragraph(s) changed, ${added} added, ${removed} removed.`;
+        parent.createDiv({cls: "nn-stage-diff__summary", text});
+    }
+
+    private renderInlineRow(parent: HTMLElement, row: DiffRow) {
+        const el = parent.createDiv({cls: "nn-stage-diff__row"});
+        el.dataset.kind = row.kind;
+
+        switch (row.kind) {
+            case "equal":
+                el.setText(row.after);
+                break;
+            case "removed":
+                el.createEl("del", {text: row.before});
+                break;
+            case "added":
+                el.createEl("ins", {text: row.after});
+                break;
+            case "changed":
+                this.renderParts(el, row.parts, ["equal", "removed", "added"]);
+                break;
+        }
+    }
+
+    private renderSideBySideRow(parent: HTMLElement, row: DiffRow) {
+        const before = parent.createDiv({cls: "nn-stage-diff__cell"});
+        const after = parent.createDiv({cls: "nn-stage-diff__cell"});
+        before.dataset.kind = row.kind;
+        after.dataset.kind = row.kind;
+
+        switch (row.kind) {
+            case "equal":
+                before.setText(row.before);
+                after.setText(row.after);
+                break;
+            case "removed":
+                before.createEl("del", {text: row.before});
+                break;
+            case "added":
+                after.createEl("ins", {text: row.after});
+                break;
+            case "changed":
+                this.renderParts(before, row.parts, ["equal", "removed"]);
+                this.renderParts(after, row.parts, ["equal", "added"]);
+                break;
+        }
+    }
+
+    private renderParts(parent: HTMLElement, parts: DiffPart[], kinds: DiffPart["kind"][]) {
+        for (const part of parts) {
+            if (!kinds.includes(part.kind)) continue;
+
+            if (part.kind === "equal") {
+                parent.appendText(part.text);
+            } else {
+                parent.createEl(part.kind === "added" ? "ins" : "del", {text: part.text});
+            }
+        }
+    }
+}
@@ -0,0 +1,141 @@
+// src/views/TimelineView.ts
+import {ItemView, setIcon, WorkspaceLeaf} from "obsidian";
+import {NovelIndexer} from "../indexer";
+import {getFullChapterLabel} from "../labels";
+import {compareStoryTimes, isBeforeStoryTime} from "../timeline";
+import {BookEntry, ChapterEntry, NovelNavigatorSettings, StoryTime} from "../types";
+
+export const VIEW_TYPE_TIMELINE = "novel-navigator-timeline";
+
+export class TimelineView extends ItemView {
+    constructor(
+        leaf: WorkspaceLeaf,
+        private indexer: NovelIndexer,
+        private settings: NovelNavigatorSettings
+    ) {
+        super(leaf);
+    }
+
+    public getViewType(): string {
+        return VIEW_TYPE_TIMELINE;
+    }
+
+    public getDisplayText(): string {
+        return "Story timeline";
+    }
+
+    public getIcon(): string {
+        return "calendar-clock";
+    }
+
+    async onOpen() {
+        this.registerEvent(this.indexer.on("index-changed", () => this.render()));
+        this.render();
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("nn-timeline");
+
+        const books = [...this.indexer.getIndex().books.values()]
+            .sort((a, b) => a.title.localeCompare(b.title));
+
+        if (books.length === 0) {
+            container.createDiv({cls: "nn-timeline__empty", text: "No books found."});
+            return;
+        }
+
+        for (const book of books) {
+            this.renderBook(container, book);
+        }
+    }
+
+    /**
+     * Lists the chapters in reading order, each with a dot placed by its in-story time: the further
+     * right, the later in the story.
+     */
+    private renderBook(parent: HTMLElement, book: BookEntry) {
+        const ranks = this.getTimeRanks(book.chapters);
+        const backwards = this.findBackwardChapters(book.chapters);
+        const lastRank = Math.max(0, ...ranks.values());
+
+        const section = parent.createDiv({cls: "nn-timeline__book"});
+        const heading = section.createEl("h4", {text: book.title});
+        if (backwards.size > 0) {
+            heading.createSpan({cls: "nn-timeline__count", text: ` (${backwards.size} out of order)`});
+        }
+
+        for (const chapter of book.chapters) {
+            const row = section.createDiv({cls: "nn-timeline__row"});
+            row.toggleClass("is-backwards", backwards.has(chapter));
+            row.toggleClass("is-flashback", chapter.flashback);
+            row.addEventListener("click", () => {
+                void this.app.workspace.openLinkText((chapter.info ?? chapter.file).path, "", false);
+            });
+
+            row.createSpan({cls: "nn-timeline__label", text: getFullChapterLabel(chapter)});
+
+            const track = row.createDiv({cls: "nn-timeline__track"});
+            const rank = ranks.get(chapter);
+            if (rank !== undefined) {
+                const dot = track.createDiv({cls: "nn-timeline__dot"});
+                dot.style.left = `${lastRank > 0 ? rank / lastRank * 100 : 50}%`;
+            }
+
+            const time = row.createSpan({cls: "nn-timeline__time"});
+            time.setText(chapter.time?.raw ?? (chapter.datetime ? String(chapter.datetime) : "Undated"));
+            if (chapter.datetime && !chapter.time) {
+                time.setAttribute("aria-label", "This date matches none of the timeline formats.");
+            }
+
+            const flag = row.createSpan({cls: "nn-timeline__flag"});
+            const previous = backwards.get(chapter);
+            if (previous) {
+                setIcon(flag, "alert-triangle");
+                flag.setAttribute("aria-label", `Goes back in time from ${previous.raw}. `
+                    + `Set ${this.settings.properties.chapterFlashback} if this is intended.`);
+            } else if (chapter.flashback) {
+                setIcon(flag, "history");
+                flag.setAttribute("aria-label", "Flashback");
+            }
+        }
+    }
+
+    /**
+     * Ranks the dated chapters by in-story time; chapters at the same time share a rank.
+     */
+    private getTimeRanks(chapters: ChapterEntry[]): Map<ChapterEntry, number> {
+        const dated = chapters
+            .filter((c): c is ChapterEntry & { time: StoryTime } => !!c.time)
+            .sort((a, b) => compareStoryTimes(a.time, b.time));
+
+        const ranks = new Map<ChapterEntry, number>();
+        let rank = 0;
+        dated.forEach((chapter, i) => {
+            if (i > 0 && compareStoryTimes(dated[i - 1].time, chapter.time) !== 0) rank++;
+            ranks.set(chapter, rank);
+        });
+        return ranks;
+    }
+
+    /**
+     * Finds the chapters, in reading order, set before the latest time the story has reached so far,
+     * mapped to that time. Flashbacks are neither flagged nor move the story's time on.
+     */
+    private findBackwardChapters(chapters: ChapterEntry[]): Map<ChapterEntry, StoryTime> {
+        const backwards = new Map<ChapterEntry, StoryTime>();
+        let latest: StoryTime | undefined;
+
+        for (const chapter of chapters) {
+            if (!chapter.time || chapter.flashback) continue;
+
+            if (latest && isBeforeStoryTime(chapter.time, latest)) {
+                backwards.set(chapter, latest);
+            } else {
+                latest = chapter.time;
+            }
+        }
+        return backwards;
+    }
+}
@@ -0,0 +1,192 @@
+// src/wordcount.ts
+import {App, EventRef, Events, TFile} from "obsidian";
+import {NovelIndexer} from "./indexer";
+import {logger} from "./logger";
+import {BookEntry, BookProgress, ChapterEntry, ChapterProgress} from "./types";
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/;
+const COMMENTS = /%%[\s\S]*?%%|<!--[\s\S]*?-->/g;
+const WORD = /[\p{L}\p{N}]+(?:['’\-.][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Splits a note into its frontmatter block, including the closing line break, and the rest.
+ */
+export function splitFrontmatter(text: string): { frontmatter: string, body: string } {
+    const frontmatter = FRONTMATTER.exec(text)?.[0] ?? "";
+    return {frontmatter, body: text.slice(frontmatter.length)};
+}
+
+/**
+ * Returns the body of a note without its frontmatter and any Obsidian or HTML comments.
+ */
+export function stripNoteBody(text: string): string {
+    return text.replace(FRONTMATTER, "").replace(COMMENTS, " ");
+}
+
+/**
+ * Counts the words of a note, ignoring its frontmatter and any Obsidian or HTML comments.
+ */
+export function countWords(text: string): number {
+    return stripNoteBody(text).match(WORD)?.length ?? 0;
+}
+
+/**
+ * Formats a count for display, e.g. "1,234 words" or "1,234 / 3,000 words".
+ */
+export function formatWordCount(words: number, target?: number): string {
+    const format = (n: number) => n.toLocaleString();
+    return target !== undefined ? `${format(words)} / ${format(target)} words` : `${format(words)} words`;
+}
+
+/**
+ * Keeps the word counts of every stage file in the index, cached by modification time. Counts are
+ * read in the background; "counts-changed" is fired with the book, chapter and stage paths whose
+ * numbers moved.
+ */
+export class WordCounter extends Events {
+    private counts = new Map<string, { mtime: number, words: number }>();
+    private queue = new Set<string>();
+    private isDraining = false;
+
+    constructor(
+        private app: App,
+        private indexer: NovelIndexer
+    ) {
+        super();
+    }
+
+    public on(name: "counts-changed", callback: (changedPaths: Set<string>) => unknown, ctx?: any): EventRef;
+    public on(name: string, callback: (...data: any[]) => unknown, ctx?: any): EventRef {
+        return super.on(name, callback, ctx);
+    }
+
+    // ─────────────────────────────────────────────
+    // Updates
+    // ─────────────────────────────────────────────
+
+    /**
+     * Queues the stage files among the changed paths for counting, or every stage file after a full
+     * rebuild. Files whose cached count is still current are skipped.
+     */
+    public handleIndexChanged(changedPaths: Set<string> | null) {
+        const stages = this.indexer.getIndex().stages;
+        const paths = changedPaths === null ? [...stages.keys()] : [...changedPaths].filter(p => stages.has(p));
+
+        for (const path of paths) {
+            const entry = stages.get(path)!;
+            if (this.counts.get(path)?.mtime !== entry.file.stat.mtime) {
+                this.queue.add(path);
+            }
+        }
+
+        // Forget files that are gone from the index
+        for (const path of this.counts.keys()) {
+            if (!stages.has(path)) this.counts.delete(path);
+        }
+
+        void this.drain();
+    }
+
+    /**
+     * Recounts a stage file from the content the metadata cache just parsed.
+     */
+    public handleFileChanged(file: TFile, content: string) {
+        const stage = this.indexer.getIndex().stages.get(file.path);
+        if (!stage) return;
+
+        if (this.store(file, countWords(content))) {
+            this.trigger("counts-changed", this.getAffectedPaths(stage.chapter, file));
+        }
+    }
+
+    private async drain() {
+        if (this.isDraining) return;
+        this.isDraining = true;
+
+        const changed = new Set<string>();
+        try {
+            while (this.queue.size > 0) {
+                const path = this.queue.values().next().value!;
+                this.queue.delete(path);
+
+                const stage = this.indexer.getIndex().stages.get(path);
+                if (!stage) continue;
+
+                try {
+                    const content = await this.app.vault.cachedRead(stage.file);
+                    if (this.store(stage.file, countWords(content))) {
+                        this.getAffectedPaths(stage.chapter, stage.file).forEach(p => changed.add(p));
+                    }
+                } catch (e) {
+                    logger.warn(`Could not count the words of "${path}".`, e);
+                }
+            }
+        } finally {
+            this.isDraining = false;
+        }
+
+        if (changed.size > 0) {
+            this.trigger("counts-changed", changed);
+        }
+    }
+
+    /**
+     * Caches a count. Returns whether it differs from the one cached before.
+     */
+    private store(file: TFile, words: number): boolean {
+        const previous = this.counts.get(file.path);
+        this.counts.set(file.path, {mtime: file.stat.mtime, words});
+        return previous?.words !== words;
+    }
+
+    private getAffectedPaths(chapter: ChapterEntry, file: TFile): Set<string> {
+        const paths = new Set<string>([file.path, chapter.file.path, chapter.book.file.path]);
+        chapter.stages.forEach(stageFile => paths.add(stageFile.path));
+        return paths;
+    }
+
+    // ─────────────────────────────────────────────
+    // Queries
+    // ─────────────────────────────────────────────
+
+    /**
+     * The cached word count of a stage file, or undefined while it hasn't been counted yet.
+     */
+    public getWordCount(file: TFile): number | undefined {
+        return this.counts.get(file.path)?.words;
+    }
+
+    /**
+     * A chapter's progress is measured on its most advanced stage, the last one in stage order that
+     * it has a file for.
+     */
+    public getChapterProgress(chapter: ChapterEntry): ChapterProgress {
+        const definitions = this.indexer.getStageDefinitions();
+        const latest = [...definitions].reverse().find(d => chapter.stages.has(d.name));
+        const file = latest && chapter.stages.get(latest.name);
+
+        return {
+            words: file ? this.getWordCount(file) ?? 0 : 0,
+            target: chapter.targetWords,
+            stage: latest?.name,
+        };
+    }
+
+    /**
+     * Sums the progress of a book's chapters. The book's target is the sum of its chapter targets.
+     */
+    public getBookProgress(book: BookEntry): BookProgress {
+        let words = 0;
+        let target: number | undefined;
+
+        for (const chapter of book.chapters) {
+            const progress = this.getChapterProgress(chapter);
+            words += progress.words;
+            if (progress.target !== undefined) {
+                target = (target ?? 0) + progress.target;
+            }
+        }
+
+        return {words, target};
+    }
+}
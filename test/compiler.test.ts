@@ -0,0 +1,48 @@
+// test/compiler.test.ts
+import {App, TFile} from "obsidian";
+import {describe, expect, it} from "vitest";
+import {NovelCompiler} from "../src/compiler";
+import {NovelFileCreator} from "../src/creator";
+import {NovelIndexer} from "../src/indexer";
+import {mergeSettings} from "../src/settings";
+import {createApp, FakeNote} from "./fakes/vault";
+import {PARTS_BOOK, SCENE_BREAKS_BOOK} from "./fixtures/books";
+
+/**
+ * Compiles the book at `bookPath` and returns the manuscript's text after its frontmatter.
+ */
+async function compile(notes: Record<string, FakeNote>, bookPath: string): Promise<string> {
+    const app = createApp(notes);
+    const settings = mergeSettings(null);
+    const indexer = new NovelIndexer(app as unknown as App, settings);
+    await indexer.buildIndex();
+
+    const creator = new NovelFileCreator(app as unknown as App, indexer, settings);
+    const compiler = new NovelCompiler(app as unknown as App, indexer, settings, creator);
+    const file = await compiler.compileBook(indexer.getIndex().books.get(bookPath)!);
+
+    const text = await app.vault.read(file as unknown as TFile);
+    return text.slice(text.indexOf("---\n", 4) + 4).trim();
+}
+
+describe("NovelCompiler", () => {
+    it("replaces scene breaks but keeps setext headings", async () => {
+        expect(await compile(SCENE_BREAKS_BOOK, "Logbook/Logbook.md")).toBe([
+            "# Chapter 1", "", "First Watch", "---", "", "Quiet.", "", "* * *", "", "Second watch.", "", "* * *", "", "Dawn.",
+        ].join("\n"));
+    });
+
+    it("puts the headings of chapters in parts below the chapter headings", async () => {
+        const manuscript = await compile({
+            ...PARTS_BOOK,
+            "Voyage/Departure - Draft": {body: "## Casting Off\nRopes.\n\nFirst Night\n---\nStars.\n\n# Aside"},
+        }, "Voyage/Voyage.md");
+
+        const start = manuscript.indexOf("# Part I");
+        expect(manuscript.slice(start, manuscript.indexOf("## Chapter 2"))).toBe([
+            "# Part I: The Crossing", "", "## Chapter 1", "", "### Casting Off", "Ropes.", "", "### First Night", "Stars.",
+            "", "## Aside", "", "",
+        ].join("\n"));
+        expect(manuscript.startsWith("# Prologue\n\nVoyage Prologue")).toBe(true);
+    });
+});
@@ -0,0 +1,107 @@
+// test/fakes/obsidian.ts
+// Stands in for the "obsidian" package, which ships type declarations only. Just enough of the API
+// for the modules under test to load and run under Node.
+
+export interface EventRef {
+    name: string;
+    callback: (...data: any[]) => unknown;
+    ctx?: any;
+}
+
+export class Events {
+    private handlers = new Map<string, EventRef[]>();
+
+    on(name: string, callback: (...data: any[]) => unknown, ctx?: any): EventRef {
+        const ref = {name, callback, ctx};
+        this.handlers.set(name, [...this.handlers.get(name) ?? [], ref]);
+        return ref;
+    }
+
+    off(name: string, callback: (...data: any[]) => unknown) {
+        this.handlers.set(name, (this.handlers.get(name) ?? []).filter(ref => ref.callback !== callback));
+    }
+
+    offref(ref: EventRef) {
+        this.handlers.set(ref.name, (this.handlers.get(ref.name) ?? []).filter(r => r !== ref));
+    }
+
+    trigger(name: string, ...data: any[]) {
+        for (const ref of this.handlers.get(name) ?? []) {
+            ref.callback.apply(ref.ctx, data);
+        }
+    }
+}
+
+export abstract class TAbstractFile {
+    parent: TFolder | null = null;
+
+    constructor(public path: string) {
+    }
+
+    get name(): string {
+        return this.path.slice(this.path.lastIndexOf("/") + 1);
+    }
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+}
+
+export class TFile extends TAbstractFile {
+    stat = {ctime: 0, mtime: 0, size: 0};
+
+    get basename(): string {
+        return this.name.replace(/\.[^.]*$/, "");
+    }
+
+    get extension(): string {
+        const dot = this.name.lastIndexOf(".");
+        return dot < 0 ? "" : this.name.slice(dot + 1);
+    }
+}
+
+export class App {
+}
+
+export class Notice {
+    // Every message shown, for tests to inspect
+    static messages: string[] = [];
+
+    constructor(public message: string) {
+        Notice.messages.push(message);
+    }
+}
+
+export class Menu {
+}
+
+export class Modal {
+}
+
+export class Plugin {
+}
+
+export class PluginSettingTab {
+}
+
+export class Setting {
+}
+
+export function getIcon(): SVGSVGElement | null {
+    return null;
+}
+
+/**
+ * The path part of a link, without its heading or block reference.
+ */
+export function getLinkpath(linktext: string): string {
+    return linktext.replace(/[#|].*$/, "");
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "") || "/";
+}
+
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown): (...args: T) => void {
+    return (...args) => void callback(...args);
+}
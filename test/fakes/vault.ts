@@ -0,0 +1,137 @@
+// test/fakes/vault.ts
+import {App, Events, getLinkpath, TFile, TFolder} from "./obsidian";
+
+export interface FakeNote {
+    frontmatter?: Record<string, unknown>;
+    body?: string;
+}
+
+/**
+ * An in-memory vault of markdown notes. Frontmatter is kept as objects rather than YAML, and served
+ * by the metadata cache as Obsidian would after parsing it.
+ */
+export class FakeVault extends Events {
+    private files = new Map<string, TFile>();
+    private notes = new Map<string, FakeNote>();
+    private folders = new Map<string, TFolder>();
+
+    constructor(notes: Record<string, FakeNote> = {}) {
+        super();
+        for (const [path, note] of Object.entries(notes)) {
+            this.setNote(path, note);
+        }
+    }
+
+    /**
+     * Adds or replaces a note. Paths without an extension get ".md".
+     */
+    setNote(path: string, note: FakeNote): TFile {
+        const fullPath = /\.[^/]+$/.test(path) ? path : `${path}.md`;
+        let file = this.files.get(fullPath);
+        if (!file) {
+            file = new TFile(fullPath);
+            file.parent = this.getFolder(fullPath.slice(0, Math.max(0, fullPath.lastIndexOf("/"))));
+            this.files.set(fullPath, file);
+        }
+        file.stat = {...file.stat, mtime: file.stat.mtime + 1};
+        this.notes.set(fullPath, note);
+        return file;
+    }
+
+    async create(path: string, content: string): Promise<TFile> {
+        return this.setNote(path, {body: content});
+    }
+
+    async modify(file: TFile, content: string): Promise<void> {
+        this.setNote(file.path, {body: content});
+    }
+
+    async createFolder(path: string): Promise<void> {
+        this.getFolder(path);
+    }
+
+    delete(path: string) {
+        this.files.delete(path);
+        this.notes.delete(path);
+    }
+
+    getNote(file: TFile): FakeNote | undefined {
+        return this.notes.get(file.path);
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return [...this.files.values()].filter(file => file.extension === "md");
+    }
+
+    getFiles(): TFile[] {
+        return [...this.files.values()];
+    }
+
+    getAbstractFileByPath(path: string): TFile | TFolder | null {
+        return this.files.get(path) ?? this.folders.get(path) ?? null;
+    }
+
+    async cachedRead(file: TFile): Promise<string> {
+        return this.read(file);
+    }
+
+    async read(file: TFile): Promise<string> {
+        const note = this.notes.get(file.path);
+        if (!note) throw new Error(`No such file: ${file.path}`);
+
+        const frontmatter = note.frontmatter
+            ? `---\n${Object.entries(note.frontmatter).map(([k, v]) => `${k}: ${JSON.stringify(v)}`).join("\n")}\n---\n`
+            : "";
+        return frontmatter + (note.body ?? "");
+    }
+
+    private getFolder(path: string): TFolder {
+        let folder = this.folders.get(path);
+        if (!folder) {
+            folder = new TFolder(path || "/");
+            this.folders.set(path, folder);
+        }
+        return folder;
+    }
+}
+
+/**
+ * Resolves links the way Obsidian does for the cases the plugin relies on: a full path, or a
+ * basename, preferring a file in the linking note's folder and then the shortest path.
+ */
+export class FakeMetadataCache extends Events {
+    constructor(private vault: FakeVault) {
+        super();
+    }
+
+    getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } | null {
+        const note = this.vault.getNote(file);
+        return note ? {frontmatter: note.frontmatter} : null;
+    }
+
+    getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+        const path = getLinkpath(linkpath);
+        const withExtension = /\.[^/]+$/.test(path) ? path : `${path}.md`;
+
+        const exact = this.vault.getAbstractFileByPath(withExtension);
+        if (exact instanceof TFile) return exact;
+
+        const name = withExtension.slice(withExtension.lastIndexOf("/") + 1).toLowerCase();
+        const folder = sourcePath.slice(0, Math.max(0, sourcePath.lastIndexOf("/")));
+        const candidates = this.vault.getFiles()
+            .filter(file => file.name.toLowerCase() === name && file.path.toLowerCase().endsWith(withExtension.toLowerCase()))
+            .sort((a, b) => a.path.length - b.path.length);
+
+        return candidates.find(file => file.parent?.path === folder) ?? candidates[0] ?? null;
+    }
+}
+
+export interface FakeApp extends App {
+    vault: FakeVault;
+    metadataCache: FakeMetadataCache;
+}
+
+export function createApp(notes: Record<string, FakeNote> = {}): FakeApp {
+    const vault = new FakeVault(notes);
+    return {vault, metadataCache: new FakeMetadataCache(vault)} as FakeApp;
+}
@@ -0,0 +1,132 @@
+// test/fixtures/books.ts
+import {FakeNote} from "../fakes/vault";
+
+/**
+ * A book with a prologue and an epilogue, each chapter having some of the stages.
+ */
+export const PROLOGUE_EPILOGUE_BOOK: Record<string, FakeNote> = {
+    "Harbour/Harbour": {
+        frontmatter: {
+            book_title: "The Harbour",
+            prologue: "[[Prologue]]",
+            chapters: ["[[Arrival]]", "[[Storm]]"],
+            epilogue: "[[Epilogue]]",
+        },
+    },
+    "Harbour/Prologue": {frontmatter: {chapter_draft: "[[Prologue - Draft]]"}},
+    "Harbour/Prologue - Draft": {body: "It began at sea."},
+    "Harbour/Arrival": {frontmatter: {chapter_outline: "[[Arrival - Outline]]", chapter_draft: "[[Arrival - Draft]]"}},
+    "Harbour/Arrival - Outline": {body: "- They arrive."},
+    "Harbour/Arrival - Draft": {body: "The ship came in at dawn."},
+    "Harbour/Storm": {frontmatter: {chapter_final: "[[Storm - Final]]"}},
+    "Harbour/Storm - Final": {body: "The storm broke."},
+    "Harbour/Epilogue": {frontmatter: {chapter_draft: "[[Epilogue - Draft]]"}},
+    "Harbour/Epilogue - Draft": {body: "They never left."},
+};
+
+/**
+ * A book whose chapters lack stage files: one has none at all, another declares a stage that isn't
+ * in the settings.
+ */
+export const MISSING_STAGES_BOOK: Record<string, FakeNote> = {
+    "Gaps/Gaps": {
+        frontmatter: {
+            book_title: "Gaps",
+            chapters: ["[[Gaps 1]]", "[[Gaps 2]]", "[[Gaps 3]]"],
+        },
+    },
+    "Gaps/Gaps 1": {frontmatter: {chapter_draft: "[[Gaps 1 - Draft]]"}},
+    "Gaps/Gaps 1 - Draft": {body: "Only a draft."},
+    "Gaps/Gaps 2": {frontmatter: {}},
+    "Gaps/Gaps 3": {frontmatter: {chapter_sketch: "[[Gaps 3 - Sketch]]"}},
+    "Gaps/Gaps 3 - Sketch": {body: "Not a known stage."},
+};
+
+/**
+ * A book linking to a chapter, a prologue and a stage file that don't exist.
+ */
+export const UNRESOLVED_LINKS_BOOK: Record<string, FakeNote> = {
+    "Lost/Lost": {
+        frontmatter: {
+            book_title: "Lost",
+            prologue: "[[Missing Prologue]]",
+            chapters: ["[[Lost 1]]", "[[Nowhere]]", "[[Lost 2]]"],
+        },
+    },
+    "Lost/Lost 1": {frontmatter: {chapter_draft: "[[Lost 1 - Draft]]"}},
+    "Lost/Lost 1 - Draft": {body: "Found."},
+    "Lost/Lost 2": {frontmatter: {chapter_draft: "[[Lost 2 - Vanished]]"}},
+};
+
+/**
+ * A book of `count` chapters, each with a draft.
+ */
+export function createLargeBook(count: number): Record<string, FakeNote> {
+    const notes: Record<string, FakeNote> = {};
+    const chapters: string[] = [];
+
+    for (let i = 1; i <= count; i++) {
+        chapters.push(`[[Saga ${i}]]`);
+        notes[`Saga/Saga ${i}`] = {frontmatter: {chapter_draft: `[[Saga ${i} - Draft]]`}};
+        notes[`Saga/Saga ${i} - Draft`] = {body: `Chapter ${i}.`};
+    }
+    notes["Saga/Saga"] = {frontmatter: {book_title: "Saga", chapters}};
+
+    return notes;
+}
+
+/**
+ * A book in three parts, the last without a title, between a prologue and an epilogue.
+ */
+export const PARTS_BOOK: Record<string, FakeNote> = {
+    "Voyage/Voyage": {
+        frontmatter: {
+            book_title: "Voyage",
+            prologue: "[[Voyage Prologue]]",
+            parts: [
+                {title: "The Crossing", chapters: ["[[Departure]]", "[[At Sea]]"]},
+                {title: "The Return", chapters: ["[[Landfall]]", "[[Homeward]]", "[[Harbour Lights]]"]},
+                {chapters: ["[[Ashore]]"]},
+            ],
+            epilogue: "[[Voyage Epilogue]]",
+        },
+    },
+    ...Object.fromEntries(
+        ["Voyage Prologue", "Departure", "At Sea", "Landfall", "Homeward", "Harbour Lights", "Ashore", "Voyage Epilogue"]
+            .flatMap(name => [
+                [`Voyage/${name}`, {frontmatter: {chapter_draft: `[[${name} - Draft]]`}}],
+                [`Voyage/${name} - Draft`, {body: name}],
+            ])
+    ),
+};
+
+/**
+ * A book with titled chapters, an interlude, and an unnumbered chapter between numbered ones.
+ */
+export const LABELS_BOOK: Record<string, FakeNote> = {
+    "Tides/Tides": {
+        frontmatter: {
+            book_title: "Tides",
+            prologue: "[[Tides Prologue]]",
+            chapters: ["[[Ebb]]", "[[Letters]]", "[[Slack Water]]", "[[Flood]]", "[[Undertow]]"],
+        },
+    },
+    "Tides/Tides Prologue": {frontmatter: {chapter_title: "Before"}},
+    "Tides/Ebb": {frontmatter: {chapter_title: "Ebb", chapter_draft: "[[Ebb - Draft]]"}},
+    "Tides/Ebb - Draft": {body: "Out."},
+    "Tides/Letters": {frontmatter: {chapter_numbered: false}},
+    "Tides/Slack Water": {frontmatter: {chapter_kind: "interlude", chapter_title: "Slack Water"}},
+    "Tides/Flood": {frontmatter: {chapter_numbered: "true"}},
+    "Tides/Undertow": {frontmatter: {chapter_kind: "Interlude"}},
+};
+
+/**
+ * A book whose draft has scene breaks, and a setext heading whose `---` underline is not one.
+ */
+export const SCENE_BREAKS_BOOK: Record<string, FakeNote> = {
+    "Logbook/Logbook": {frontmatter: {book_title: "Logbook", chapters: ["[[Watch]]"]}},
+    "Logbook/Watch": {frontmatter: {chapter_draft: "[[Watch - Draft]]"}},
+    "Logbook/Watch - Draft": {
+        body: ["First Watch", "---", "", "Quiet.", "", "***", "", "Second watch.", "", "- - -", "", "Dawn."].join("\n"),
+    },
+};
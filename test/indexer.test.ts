@@ -0,0 +1,245 @@
+// test/indexer.test.ts
+import {App, TFile} from "obsidian";
+import {describe, expect, it} from "vitest";
+import {NovelIndexer} from "../src/indexer";
+import {getFullChapterLabel} from "../src/labels";
+import {mergeSettings} from "../src/settings";
+import {NovelNavigatorSettings} from "../src/types";
+import {createApp, FakeApp, FakeNote} from "./fakes/vault";
+import {
+    createLargeBook,
+    LABELS_BOOK,
+    MISSING_STAGES_BOOK,
+    PARTS_BOOK,
+    PROLOGUE_EPILOGUE_BOOK,
+    UNRESOLVED_LINKS_BOOK
+} from "./fixtures/books";
+
+async function buildIndexer(
+    notes: Record<string, FakeNote>,
+    settings: Partial<NovelNavigatorSettings> = {}
+): Promise<{ app: FakeApp, indexer: NovelIndexer }> {
+    const app = createApp(notes);
+    const indexer = new NovelIndexer(app as unknown as App, mergeSettings(settings));
+    await indexer.buildIndex();
+    return {app, indexer};
+}
+
+// The fake files are what the indexer sees at runtime, but are typed apart from Obsidian's
+function getFile(app: FakeApp, path: string): TFile {
+    return app.vault.getAbstractFileByPath(path) as unknown as TFile;
+}
+
+function setNote(app: FakeApp, path: string, note: FakeNote): TFile {
+    return app.vault.setNote(path, note) as unknown as TFile;
+}
+
+describe("NovelIndexer", () => {
+    describe("prologue and epilogue", () => {
+        it("orders and labels the chapters", async () => {
+            const {indexer} = await buildIndexer(PROLOGUE_EPILOGUE_BOOK);
+            const book = indexer.getIndex().books.get("Harbour/Harbour.md")!;
+
+            expect(book.title).toBe("The Harbour");
+            expect(book.chapters.map(c => c.chapterLabel)).toEqual(["Prologue", "Chapter 1", "Chapter 2", "Epilogue"]);
+            expect(book.chapters.map(c => c.chapterNumber)).toEqual([null, 1, 2, null]);
+            expect(book.prologue?.file.path).toBe("Harbour/Prologue.md");
+            expect(book.epilogue?.file.path).toBe("Harbour/Epilogue.md");
+        });
+
+        it("indexes each chapter's stages", async () => {
+            const {app, indexer} = await buildIndexer(PROLOGUE_EPILOGUE_BOOK);
+            const arrival = indexer.getIndex().chapters.get("Harbour/Arrival.md")!;
+
+            expect([...arrival.stages.keys()]).toEqual(["outline", "draft"]);
+            expect(indexer.resolveToolbarModeForFile(getFile(app, "Harbour/Arrival - Draft.md"))).toMatchObject({
+                kind: "chapter-stage",
+                stage: {stage: "draft", chapter: arrival},
+            });
+            expect(indexer.getDiagnostics()).toEqual([]);
+        });
+
+        it("navigates from the prologue to the first chapter", async () => {
+            const {app, indexer} = await buildIndexer(PROLOGUE_EPILOGUE_BOOK);
+            const stage = indexer.getIndex().stages.get("Harbour/Prologue - Draft.md")!;
+            const targets = indexer.getNavigationTargets(stage);
+
+            expect(targets.previous).toEqual({kind: "disabled"});
+            expect(targets.next).toMatchObject({kind: "file", file: getFile(app, "Harbour/Arrival - Draft.md")});
+        });
+    });
+
+    describe("missing stages", () => {
+        it("reports chapters without stage files", async () => {
+            const {indexer} = await buildIndexer(MISSING_STAGES_BOOK);
+            const book = indexer.getIndex().books.get("Gaps/Gaps.md")!;
+
+            expect(book.chapters).toHaveLength(3);
+            expect(book.chapters[2].stages.size).toBe(0);
+            expect(indexer.getDiagnostics().map(d => [d.kind, d.file.path])).toEqual([
+                ["empty-chapter", "Gaps/Gaps 2.md"],
+                ["empty-chapter", "Gaps/Gaps 3.md"],
+            ]);
+        });
+
+        it("picks up a stage file once it is linked", async () => {
+            const {app, indexer} = await buildIndexer(MISSING_STAGES_BOOK);
+            setNote(app, "Gaps/Gaps 2 - Draft", {body: "Now drafted."});
+            const chapter = setNote(app, "Gaps/Gaps 2", {frontmatter: {chapter_draft: "[[Gaps 2 - Draft]]"}});
+
+            const changes: (Set<string> | null)[] = [];
+            indexer.on("index-changed", paths => changes.push(paths));
+            indexer.handleFileChanged(chapter);
+
+            expect(indexer.getIndex().stages.get("Gaps/Gaps 2 - Draft.md")?.chapter.file).toBe(chapter);
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toContain("Gaps/Gaps 2 - Draft.md");
+        });
+    });
+
+    describe("unresolved links", () => {
+        it("skips unresolved chapters and reports every broken link", async () => {
+            const {indexer} = await buildIndexer(UNRESOLVED_LINKS_BOOK);
+            const book = indexer.getIndex().books.get("Lost/Lost.md")!;
+
+            expect(book.prologue).toBeUndefined();
+            expect(book.chapters.map(c => c.file.path)).toEqual(["Lost/Lost 1.md", "Lost/Lost 2.md"]);
+
+            const unresolved = indexer.getDiagnostics().filter(d => d.kind === "unresolved-link");
+            expect(unresolved.map(d => d.message)).toEqual([
+                `"[[Nowhere]]" does not resolve to a file.`,
+                `"[[Missing Prologue]]" does not resolve to a file.`,
+                `"[[Lost 2 - Vanished]]" does not resolve to a file.`,
+            ]);
+        });
+
+        it("resolves a link once its file is created", async () => {
+            const {app, indexer} = await buildIndexer(UNRESOLVED_LINKS_BOOK);
+            indexer.handleFileChanged(setNote(app, "Lost/Nowhere", {frontmatter: {}}));
+
+            const book = indexer.getIndex().books.get("Lost/Lost.md")!;
+            expect(book.chapters.map(c => c.chapterLabel)).toEqual(["Chapter 1", "Chapter 2", "Chapter 3"]);
+            expect(indexer.getDiagnostics().some(d => d.message.includes("[[Nowhere]]"))).toBe(false);
+        });
+
+        it("reports a chapter whose file is deleted", async () => {
+            const {app, indexer} = await buildIndexer(PROLOGUE_EPILOGUE_BOOK);
+            const storm = getFile(app, "Harbour/Storm.md");
+            app.vault.delete(storm.path);
+            indexer.handleFileDeleted(storm);
+
+            const book = indexer.getIndex().books.get("Harbour/Harbour.md")!;
+            expect(book.chapters.map(c => c.chapterLabel)).toEqual(["Prologue", "Chapter 1", "Epilogue"]);
+            expect(indexer.getIndex().stages.has("Harbour/Storm - Final.md")).toBe(false);
+            expect(indexer.getDiagnostics()).toMatchObject([{kind: "unresolved-link", file: book.file}]);
+        });
+    });
+
+    describe("parts", () => {
+        it("groups the chapters into parts", async () => {
+            const {indexer} = await buildIndexer(PARTS_BOOK);
+            const book = indexer.getIndex().books.get("Voyage/Voyage.md")!;
+
+            expect(book.parts.map(p => [p.label, p.title, p.chapters.length])).toEqual([
+                ["Part I", "The Crossing", 2],
+                ["Part II", "The Return", 3],
+                ["Part III", "Part III", 1],
+            ]);
+            expect(book.chapters.map(c => c.file.basename)).toEqual([
+                "Voyage Prologue", "Departure", "At Sea", "Landfall", "Homeward", "Harbour Lights", "Ashore",
+                "Voyage Epilogue",
+            ]);
+            expect(book.prologue?.part).toBeUndefined();
+            expect(book.epilogue?.part).toBeUndefined();
+        });
+
+        it("numbers chapters through the book by default", async () => {
+            const {indexer} = await buildIndexer(PARTS_BOOK);
+            const book = indexer.getIndex().books.get("Voyage/Voyage.md")!;
+
+            expect(book.chapters.map(getFullChapterLabel)).toEqual([
+                "Prologue",
+                "Part I · Chapter 1", "Part I · Chapter 2",
+                "Part II · Chapter 3", "Part II · Chapter 4", "Part II · Chapter 5",
+                "Part III · Chapter 6",
+                "Epilogue",
+            ]);
+        });
+
+        it("restarts the numbers in each part", async () => {
+            const labels = {...mergeSettings(null).labels, numbering: "per-part" as const};
+            const {indexer} = await buildIndexer(PARTS_BOOK, {labels});
+            const book = indexer.getIndex().books.get("Voyage/Voyage.md")!;
+
+            expect(book.chapters.map(c => c.chapterNumber)).toEqual([null, 1, 2, 1, 2, 3, 1, null]);
+            expect(getFullChapterLabel(book.chapters[5])).toBe("Part II · Chapter 3");
+        });
+
+        it("navigates across parts", async () => {
+            const {app, indexer} = await buildIndexer(PARTS_BOOK);
+            const stage = indexer.getIndex().stages.get("Voyage/At Sea - Draft.md")!;
+
+            expect(indexer.getNavigationTargets(stage).next).toMatchObject({
+                file: getFile(app, "Voyage/Landfall - Draft.md"),
+            });
+        });
+    });
+
+    describe("labels", () => {
+        it("numbers only numbered chapters", async () => {
+            const {indexer} = await buildIndexer(LABELS_BOOK);
+            const book = indexer.getIndex().books.get("Tides/Tides.md")!;
+
+            expect(book.chapters.map(c => [c.kind, c.chapterNumber, c.chapterLabel])).toEqual([
+                ["prologue", null, "Prologue"],
+                ["chapter", 1, "Chapter 1"],
+                ["chapter", null, "Letters"],
+                ["interlude", null, "Interlude: Slack Water"],
+                ["chapter", 2, "Chapter 2"],
+                ["interlude", null, "Interlude"],
+            ]);
+        });
+
+        it("labels chapters from the configured formats", async () => {
+            const {indexer} = await buildIndexer(LABELS_BOOK, {
+                labels: {
+                    ...mergeSettings(null).labels,
+                    chapterFormat: "{n:words}: {title}",
+                    interludeFormat: "Interlude {n:roman}",
+                    prologueFormat: "Prologue: {title}",
+                },
+            });
+            const book = indexer.getIndex().books.get("Tides/Tides.md")!;
+
+            expect(book.chapters.map(c => c.chapterLabel)).toEqual([
+                "Prologue: Before", "One: Ebb", "Letters", "Interlude I", "Two", "Interlude II",
+            ]);
+            expect(book.chapters.map(c => c.shortLabel)).toEqual([
+                "Prologue: Before", "One", "Letters", "Interlude I", "Two", "Interlude II",
+            ]);
+        });
+    });
+
+    describe("large books", () => {
+        it("indexes every chapter in order", async () => {
+            const {indexer} = await buildIndexer(createLargeBook(1000));
+            const book = indexer.getIndex().books.get("Saga/Saga.md")!;
+
+            expect(book.chapters).toHaveLength(1000);
+            expect(book.chapters[999].chapterLabel).toBe("Chapter 1000");
+            expect(indexer.getIndex().stages.size).toBe(1000);
+            expect(indexer.getDiagnostics()).toEqual([]);
+        });
+
+        it("navigates to the first and last chapters", async () => {
+            const {app, indexer} = await buildIndexer(createLargeBook(1000));
+            const stage = indexer.getIndex().stages.get("Saga/Saga 500 - Draft.md")!;
+            const targets = indexer.getNavigationTargets(stage);
+
+            expect(targets.previous).toMatchObject({file: getFile(app, "Saga/Saga 499 - Draft.md")});
+            expect(targets.next).toMatchObject({file: getFile(app, "Saga/Saga 501 - Draft.md")});
+            expect(targets.first).toMatchObject({file: getFile(app, "Saga/Saga 1 - Draft.md")});
+            expect(targets.last).toMatchObject({file: getFile(app, "Saga/Saga 1000 - Draft.md")});
+        });
+    });
+});
@@ -0,0 +1,73 @@
+// test/labels.test.ts
+import {describe, expect, it} from "vitest";
+import {
+    formatRoman,
+    formatWords,
+    getFullChapterLabel,
+    getNumberStyle,
+    getPartHeading,
+    renderLabel
+} from "../src/labels";
+import {ChapterEntry, PartEntry} from "../src/types";
+
+describe("formatRoman", () => {
+    it("writes Roman numerals", () => {
+        expect([1, 4, 9, 14, 40, 90, 400, 1994].map(formatRoman))
+            .toEqual(["I", "IV", "IX", "XIV", "XL", "XC", "CD", "MCMXCIV"]);
+    });
+
+    it("leaves other numbers as they are", () => {
+        expect([0, -3, 2.5].map(formatRoman)).toEqual(["0", "-3", "2.5"]);
+    });
+});
+
+describe("formatWords", () => {
+    it("spells out numbers", () => {
+        expect([0, 7, 13, 20, 21, 99, 100, 105, 342, 1000, 2019].map(formatWords)).toEqual([
+            "Zero", "Seven", "Thirteen", "Twenty", "Twenty-One", "Ninety-Nine", "One Hundred",
+            "One Hundred and Five", "Three Hundred and Forty-Two", "One Thousand", "Two Thousand and Nineteen",
+        ]);
+    });
+});
+
+describe("renderLabel", () => {
+    it("fills in the number in each style", () => {
+        expect(renderLabel("Chapter {n}", 4, undefined, "")).toBe("Chapter 4");
+        expect(renderLabel("Chapter {n:roman}", 4, undefined, "")).toBe("Chapter IV");
+        expect(renderLabel("Chapter {n:words}", 4, undefined, "")).toBe("Chapter Four");
+    });
+
+    it("fills in the title, or drops it with its separator", () => {
+        expect(renderLabel("Ch. {n}: {title}", 3, "The Storm", "")).toBe("Ch. 3: The Storm");
+        expect(renderLabel("Ch. {n}: {title}", 3, undefined, "")).toBe("Ch. 3");
+        expect(renderLabel("Interlude — {title}", null, undefined, "")).toBe("Interlude");
+    });
+
+    it("fills in titles with $ signs as they are", () => {
+        expect(renderLabel("Ch. {n}: {title}", 3, "Cost $&", "")).toBe("Ch. 3: Cost $&");
+        expect(renderLabel("{title}", null, "$$ and $' and $`", "")).toBe("$$ and $' and $`");
+    });
+
+    it("falls back when the label comes out empty", () => {
+        expect(renderLabel("{title}", null, undefined, "Untitled")).toBe("Untitled");
+    });
+
+    it("finds the number style of a format", () => {
+        expect(getNumberStyle("Ch. {n:roman}: {title}")).toBe("roman");
+        expect(getNumberStyle("{title}")).toBe("arabic");
+    });
+});
+
+describe("part labels", () => {
+    const part = {label: "Part II", title: "The Return"} as PartEntry;
+
+    it("puts the part before the chapter label", () => {
+        expect(getFullChapterLabel({chapterLabel: "Chapter 3", part} as ChapterEntry)).toBe("Part II · Chapter 3");
+        expect(getFullChapterLabel({chapterLabel: "Prologue"} as ChapterEntry)).toBe("Prologue");
+    });
+
+    it("adds the title to the part heading when it has one", () => {
+        expect(getPartHeading(part)).toBe("Part II: The Return");
+        expect(getPartHeading({label: "Part III", title: "Part III"} as PartEntry)).toBe("Part III");
+    });
+});
@@ -0,0 +1,135 @@
+// test/layout.test.ts
+import {App, TFile} from "obsidian";
+import {describe, expect, it} from "vitest";
+import {NovelIndexer} from "../src/indexer";
+import {mergeSettings} from "../src/settings";
+import {
+    calculateSqueeze,
+    calculateTruncateEnd,
+    calculateWindow,
+    findMiddleSplit,
+    getChapterButtonLabels,
+    getChapterSignature
+} from "../src/toolbars/layout";
+import {ChapterEntry, ChapterLabelSettings} from "../src/types";
+import {createApp} from "./fakes/vault";
+import {LABELS_BOOK} from "./fixtures/books";
+
+const chapter = (shortLabel: string) => ({shortLabel}) as ChapterEntry;
+
+describe("getChapterSignature", () => {
+    const build = async (labels: Partial<ChapterLabelSettings> = {}) => {
+        const app = createApp(LABELS_BOOK);
+        const indexer = new NovelIndexer(app as unknown as App, mergeSettings({
+            labels: {...mergeSettings(null).labels, ...labels},
+        }));
+        await indexer.buildIndex();
+        const signature = () => getChapterSignature(indexer.getIndex().books.get("Tides/Tides.md")!.chapters);
+        return {app, indexer, signature};
+    };
+
+    it("stays the same when nothing changed", async () => {
+        expect((await build()).signature()).toBe((await build()).signature());
+    });
+
+    it("changes with the label formats", async () => {
+        const arabic = (await build()).signature();
+        expect((await build({chapterFormat: "Chapter {n:roman}"})).signature()).not.toBe(arabic);
+        expect((await build({unnumberedFormat: "~ {title} ~"})).signature()).not.toBe(arabic);
+    });
+
+    it("changes when an interlude or unnumbered chapter is retitled", async () => {
+        const {app, indexer, signature} = await build();
+
+        for (const path of ["Tides/Slack Water", "Tides/Letters"]) {
+            const before = signature();
+            const note = LABELS_BOOK[path];
+            const file = app.vault.setNote(path, {...note, frontmatter: {...note.frontmatter, chapter_title: "Renamed"}});
+            indexer.handleFileChanged(file as unknown as TFile);
+            expect(signature()).not.toBe(before);
+        }
+    });
+});
+
+describe("getChapterButtonLabels", () => {
+    it("shows each chapter's short label", () => {
+        const labels = getChapterButtonLabels([chapter("Prologue"), chapter("1"), chapter("IV"), chapter("Epilogue")]);
+        expect(labels).toEqual(["Prologue", "1", "IV", "Epilogue"]);
+    });
+
+    it("cuts long labels short", () => {
+        expect(getChapterButtonLabels([chapter("Interlude: The Lighthouse Keeper")])).toEqual(["Interlude:…"]);
+    });
+});
+
+describe("findMiddleSplit", () => {
+    it("splits at the pixel-based centre", () => {
+        expect(findMiddleSplit([10, 10, 10, 10])).toBe(1);
+        expect(findMiddleSplit([100, 10, 10, 10])).toBe(0);
+        expect(findMiddleSplit([10, 10, 10, 100])).toBe(3);
+    });
+
+    it("returns the end for no chapters", () => {
+        expect(findMiddleSplit([])).toBe(0);
+    });
+});
+
+describe("calculateSqueeze", () => {
+    it("hides nothing when everything fits", () => {
+        expect(calculateSqueeze([30, 30, 30], 200, 30)).toEqual({hideStart: null, hideEnd: null, showOverflow: false});
+    });
+
+    it("hides chapters from the middle", () => {
+        // 10 chapters of 30px; 150px leaves room for 3 next to the overflow button, the odd one on the right
+        const squeeze = calculateSqueeze(Array(10).fill(30), 150, 30);
+        expect(squeeze).toEqual({hideStart: 1, hideEnd: 7, showOverflow: true});
+    });
+
+    it("keeps both ends of a long book", () => {
+        const widths = Array(500).fill(30);
+        const squeeze = calculateSqueeze(widths, 400, 30);
+        const shown = widths.length - (squeeze.hideEnd! - squeeze.hideStart! + 1);
+
+        expect(squeeze.hideStart).toBeGreaterThan(0);
+        expect(squeeze.hideEnd).toBeLessThan(widths.length - 1);
+        expect(shown * 30 + 30 + 10).toBeLessThanOrEqual(400);
+    });
+
+    it("hides everything when not even one chapter fits", () => {
+        expect(calculateSqueeze([100, 100], 50, 30)).toEqual({hideStart: 0, hideEnd: 1, showOverflow: true});
+    });
+});
+
+describe("calculateTruncateEnd", () => {
+    it("hides nothing when everything fits", () => {
+        expect(calculateTruncateEnd([30, 30], 100, 30).showOverflow).toBe(false);
+    });
+
+    it("keeps the chapters from the start that fit", () => {
+        expect(calculateTruncateEnd(Array(10).fill(30), 150, 30)).toEqual({hideStart: 3, hideEnd: 9, showOverflow: true});
+    });
+});
+
+describe("calculateWindow", () => {
+    const widths = Array(20).fill(30);
+
+    it("centres on the focus", () => {
+        expect(calculateWindow(widths, 160, null, 10)).toEqual({start: 8, end: 12});
+    });
+
+    it("fills the toolbar when the focus is near the end", () => {
+        expect(calculateWindow(widths, 160, null, 19)).toEqual({start: 15, end: 19});
+    });
+
+    it("starts from an explicit start", () => {
+        expect(calculateWindow(widths, 160, 3, 10)).toEqual({start: 3, end: 7});
+    });
+
+    it("pulls a start past the end back", () => {
+        expect(calculateWindow(widths, 160, 18, 0)).toEqual({start: 15, end: 19});
+    });
+
+    it("shows the whole book when it fits", () => {
+        expect(calculateWindow([30, 30], 500, null, 0)).toEqual({start: 0, end: 1});
+    });
+});
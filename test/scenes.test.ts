@@ -0,0 +1,84 @@
+// test/scenes.test.ts
+import {describe, expect, it} from "vitest";
+import {findSceneAt, matchScene, parseScenes} from "../src/scenes";
+
+const DRAFT = [
+    "---",
+    "chapter_stage: draft",
+    "---",
+    "The ship left at dawn.",
+    "",
+    "***",
+    "",
+    "By noon the wind had dropped.",
+    "",
+    "## The Storm",
+    "Rain, then hail.",
+    "",
+    "* * *",
+    "Morning.",
+].join("\n");
+
+describe("parseScenes", () => {
+    it("splits at scene breaks and level-two headings, after the frontmatter", () => {
+        expect(parseScenes(DRAFT)).toEqual([
+            {index: 0, line: 3, heading: undefined, title: "The ship left at dawn."},
+            {index: 1, line: 7, heading: undefined, title: "By noon the wind had dropped."},
+            {index: 2, line: 9, heading: "The Storm", title: "The Storm"},
+            {index: 3, line: 13, heading: undefined, title: "Morning."},
+        ]);
+    });
+
+    it("starts no empty scenes", () => {
+        const text = "***\n\n## One\nText\n\n***\n\n## Two\nMore\n\n***\n";
+        expect(parseScenes(text).map(scene => [scene.line, scene.heading])).toEqual([[2, "One"], [7, "Two"]]);
+    });
+
+    it("ignores breaks in fenced code and setext underlines", () => {
+        const text = "Heading\n---\nText\n```\n***\n## Not a scene\n```\n***\nNext";
+        expect(parseScenes(text).map(scene => scene.line)).toEqual([0, 8]);
+    });
+
+    it("finds no scenes in an empty file", () => {
+        expect(parseScenes("---\ntitle: x\n---\n\n")).toEqual([]);
+    });
+});
+
+describe("findSceneAt", () => {
+    const scenes = parseScenes(DRAFT);
+
+    it("finds the scene containing a line", () => {
+        expect([0, 3, 6, 7, 12, 13, 99].map(line => findSceneAt(scenes, line))).toEqual([0, 0, 0, 1, 2, 3, 3]);
+    });
+
+    it("returns -1 without scenes", () => {
+        expect(findSceneAt([], 4)).toBe(-1);
+    });
+});
+
+describe("matchScene", () => {
+    const scenes = (...headings: (string | null)[]) =>
+        parseScenes(headings.map(heading => heading ? `## ${heading}\nText` : "***\nText").join("\n"));
+
+    it("matches scenes by heading", () => {
+        const draft = scenes("Dawn", "Storm", "Landfall");
+        const final = scenes("Dawn", "Calm", "storm", "Landfall");
+        expect(matchScene(draft, 1, final)).toBe(2);
+        expect(matchScene(draft, 2, final)).toBe(3);
+    });
+
+    it("matches scenes one to one when the counts agree", () => {
+        expect(matchScene(scenes(null, null, null), 2, scenes(null, null, null))).toBe(2);
+    });
+
+    it("matches scenes proportionally when scenes were split or merged", () => {
+        const draft = scenes(null, null, null);
+        const final = scenes(null, null, null, null, null);
+        expect([0, 1, 2].map(index => matchScene(draft, index, final))).toEqual([0, 2, 4]);
+        expect(matchScene(final, 3, draft)).toBe(2);
+    });
+
+    it("returns -1 when the other stage has no scenes", () => {
+        expect(matchScene(scenes("Dawn"), 0, [])).toBe(-1);
+    });
+});
@@ -0,0 +1,38 @@
+// test/timeline.test.ts
+import {describe, expect, it} from "vitest";
+import {compareStoryTimes, isBeforeStoryTime, parseStoryTime} from "../src/timeline";
+import {StoryTime} from "../src/types";
+
+const DAY_FORMAT = String.raw`^Day (?<day>\d+)(?:,? (?<hour>\d{1,2}):(?<minute>\d{2}))?$`;
+
+const time = (value: string): StoryTime => parseStoryTime(value, [DAY_FORMAT])!;
+const sorted = (values: string[]) => values.map(time).sort(compareStoryTimes).map(t => t.raw);
+
+describe("compareStoryTimes", () => {
+    it("puts a less precise time before the more precise times within it", () => {
+        const expected = ["1815", "1815-06", "1815-06-18", "1815-06-18 06:00", "1815-06-18 14:30", "1815-06-19"];
+        expect(sorted(["1815-06-18 14:30", "1815-06", "1815-06-19", "1815", "1815-06-18", "1815-06-18 06:00"]))
+            .toEqual(expected);
+        expect(sorted([...expected].reverse())).toEqual(expected);
+    });
+
+    it("is transitive across mixed precision", () => {
+        const [day, morning, evening] = ["Day 3", "Day 3 06:00", "Day 3 18:00"].map(time);
+        expect(compareStoryTimes(day, morning)).toBeLessThan(0);
+        expect(compareStoryTimes(day, evening)).toBeLessThan(0);
+        expect(compareStoryTimes(morning, evening)).toBeLessThan(0);
+        expect(compareStoryTimes(morning, time("Day 3, 06:00"))).toBe(0);
+    });
+
+    it("puts dates before year-less times", () => {
+        expect(sorted(["Day 2", "June 1815", "1815-06-18", "1816"])).toEqual(["June 1815", "1815-06-18", "1816", "Day 2"]);
+    });
+});
+
+describe("isBeforeStoryTime", () => {
+    it("compares only the components both times have", () => {
+        expect(isBeforeStoryTime(time("Day 3"), time("Day 3 18:00"))).toBe(false);
+        expect(isBeforeStoryTime(time("Day 3 18:00"), time("Day 3"))).toBe(false);
+        expect(isBeforeStoryTime(time("Day 2 23:00"), time("Day 3"))).toBe(true);
+    });
+});
@@ -0,0 +1,14 @@
+import {fileURLToPath} from "node:url";
+import {defineConfig} from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package has no runtime code; tests run against a fake of the parts they need
+			obsidian: fileURLToPath(new URL("./test/fakes/obsidian.ts", import.meta.url)),
+		},
+	},
+	test: {
+		include: ["test/**/*.test.ts"],
+	},
+});